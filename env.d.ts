@@ -6,7 +6,16 @@ declare namespace Cloudflare {
 		durableNamespaces: "Chat";
 	}
 	interface Env {
+		CURRENT_TERM: "FA26";
 		OPENAI_API_KEY: string;
+		CLOUDFLARE_ACCOUNT_ID: string;
+		CLOUDFLARE_API_TOKEN: string;
+		INGEST_ADMIN_TOKENS: string;
+		LLM_PROVIDER: string;
+		LLM_MODEL: string;
+		LLM_BASE_URL: string;
+		LLM_API_KEY: string;
+		GATEWAY_BASE_URL: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
 		DB: D1Database;
 		VECTORIZE: VectorizeIndex;
@@ -18,5 +27,5 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "CURRENT_TERM" | "OPENAI_API_KEY" | "CLOUDFLARE_ACCOUNT_ID" | "CLOUDFLARE_API_TOKEN" | "INGEST_ADMIN_TOKENS" | "LLM_PROVIDER" | "LLM_MODEL" | "LLM_BASE_URL" | "LLM_API_KEY" | "GATEWAY_BASE_URL">> {}
 }
@@ -0,0 +1,9 @@
+-- Step 1 of upgrading a database created from the original schema, where
+-- courses were keyed by id alone and schedules had no term (see SETUP.md)
+-- Saves schedules aside and drops the old tables so schema.sql can recreate them
+
+CREATE TABLE user_schedules_legacy AS
+SELECT user_id, course_id, notes, added_at FROM user_schedules;
+
+DROP TABLE user_schedules;
+DROP TABLE courses;
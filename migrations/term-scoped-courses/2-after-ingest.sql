@@ -0,0 +1,9 @@
+-- Step 2, run once the term the saved schedules belong to has been re-ingested
+-- Restores each saved section under that term; sections no longer offered are dropped
+
+INSERT OR IGNORE INTO user_schedules (user_id, term, course_id, notes, added_at)
+SELECT legacy.user_id, courses.term, legacy.course_id, legacy.notes, legacy.added_at
+FROM user_schedules_legacy AS legacy
+JOIN courses ON courses.id = legacy.course_id;
+
+DROP TABLE user_schedules_legacy;
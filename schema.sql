@@ -1,5 +1,6 @@
 CREATE TABLE IF NOT EXISTS courses (
-  id TEXT PRIMARY KEY, 
+  id TEXT NOT NULL, 
+  term TEXT NOT NULL, -- FA26, SP27, etc.
 
   subject TEXT NOT NULL, 
   catalog_nbr TEXT NOT NULL, 
@@ -8,15 +9,21 @@ CREATE TABLE IF NOT EXISTS courses (
   class_nbr INTEGER NOT NULL,
 
   component TEXT, -- SEM, LEC, DIS, etc.
+  enroll_group INTEGER, -- Sections must be taken from one enrollment group
+  assoc_class TEXT, -- Linked sections within the group share this number
+  components_required TEXT, -- JSON array, e.g. ["LEC", "DIS"]
+  components_optional TEXT, -- JSON array
   status TEXT, -- C (Closed), O (Open), etc.
   credits INTEGER,
 
   description TEXT,
 
   meetings TEXT, -- JSON array of meeting time strings
+  instructors TEXT, -- JSON array of instructor names
 
 
   prerequisites TEXT,
+  prerequisites_parsed TEXT, -- JSON ParsedPrerequisites (see src/prerequisites.ts)
   restrictions TEXT,
   attributes TEXT, 
 
@@ -24,25 +31,215 @@ CREATE TABLE IF NOT EXISTS courses (
 
   text_for_embedding TEXT,
 
+  content_hash TEXT, -- SHA-256 of the ingested record; set once the row is fully indexed
   
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (term, id)
 );
 
+CREATE INDEX IF NOT EXISTS idx_term ON courses(term);
 CREATE INDEX IF NOT EXISTS idx_subject ON courses(subject);
 CREATE INDEX IF NOT EXISTS idx_catalog_nbr ON courses(catalog_nbr);
 CREATE INDEX IF NOT EXISTS idx_component ON courses(component);
 CREATE INDEX IF NOT EXISTS idx_status ON courses(status);
 
+-- Structured meetings parsed from courses.meetings at ingestion
+CREATE TABLE IF NOT EXISTS course_meetings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  term TEXT NOT NULL,
+  course_id TEXT NOT NULL,
+  days TEXT NOT NULL, -- Day codes, e.g. "MW", "SSu"
+  day_mask INTEGER NOT NULL, -- Bitmask: M=1, T=2, W=4, R=8, F=16, S=32, Su=64
+  start_min INTEGER, -- Minutes since midnight; NULL when TBA
+  end_min INTEGER,
+  location TEXT,
+  start_date TEXT, -- ISO date; set for half-semester meetings
+  end_date TEXT,
+  tba INTEGER NOT NULL DEFAULT 0,
+  raw TEXT NOT NULL, -- Original display string
+
+  FOREIGN KEY (term, course_id) REFERENCES courses(term, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_meetings ON course_meetings(term, course_id);
+
+-- Keyword index over primary sections, maintained by ingestCourses
+CREATE VIRTUAL TABLE IF NOT EXISTS courses_fts USING fts5(
+  title,
+  description,
+  instructors,
+  term UNINDEXED,
+  course_id UNINDEXED,
+  tokenize = 'porter unicode61'
+);
+
 CREATE TABLE IF NOT EXISTS user_schedules (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   user_id TEXT NOT NULL,
+  term TEXT NOT NULL,
   course_id TEXT NOT NULL, 
   notes TEXT,
   added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 
-  FOREIGN KEY (course_id) REFERENCES courses(id),
-  UNIQUE(user_id, course_id)
+  FOREIGN KEY (term, course_id) REFERENCES courses(term, id),
+  UNIQUE(user_id, term, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_schedules ON user_schedules(user_id, term);
+
+CREATE TABLE IF NOT EXISTS calendar_images (
+  user_id TEXT NOT NULL,
+  hash TEXT NOT NULL, -- SHA-256 prefix of the SVG content
+  svg TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_rendered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (user_id, hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_images_rendered ON calendar_images(user_id, last_rendered_at);
+
+CREATE TABLE IF NOT EXISTS user_completed_courses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  catalog_nbr TEXT NOT NULL,
+  term TEXT, -- Term the course was taken, if known
+  grade TEXT,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(user_id, subject, catalog_nbr)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_completed_courses ON user_completed_courses(user_id);
+
+-- Bulk ingestion runs, reported by /ingest-jobs/:id
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, running, completed, failed
+  term TEXT NOT NULL, -- Term for courses without their own term field
+  total INTEGER, -- Expected number of courses, when known
+  processed INTEGER NOT NULL DEFAULT 0,
+  succeeded INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0, -- Unchanged since the last ingestion
+  failed INTEGER NOT NULL DEFAULT 0,
+  errors TEXT NOT NULL DEFAULT '[]', -- JSON array of the most recent error messages
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+-- Who ran which ingestion requests, written by the admin-authenticated endpoints
+CREATE TABLE IF NOT EXISTS ingest_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  admin TEXT NOT NULL, -- Name from INGEST_ADMIN_TOKENS
+  action TEXT NOT NULL, -- create_job, ingest, ingest_requirements
+  job_id TEXT,
+  terms TEXT, -- JSON array of terms in the payload
+  course_ids TEXT, -- JSON array of ingested course IDs
+  course_count INTEGER NOT NULL DEFAULT 0,
+  succeeded INTEGER,
+  skipped INTEGER,
+  failed INTEGER,
+  ip TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_audit_log ON ingest_audit_log(admin, created_at);
+
+-- Student-visible section changes detected when a term is re-ingested
+CREATE TABLE IF NOT EXISTS course_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  term TEXT NOT NULL,
+  course_id TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  catalog_nbr TEXT NOT NULL,
+  component TEXT,
+  section TEXT,
+  field TEXT NOT NULL, -- title, credits, status, meetings, instructors, prerequisites
+  old_value TEXT,
+  new_value TEXT,
+  detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  notified_at TIMESTAMP, -- Set once affected students have been sent the change
+  claimed_at TIMESTAMP, -- Set while a notification run is sending the change
+
+  FOREIGN KEY (term, course_id) REFERENCES courses(term, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_changes ON course_changes(term, course_id, detected_at);
+CREATE INDEX IF NOT EXISTS idx_course_changes_pending ON course_changes(notified_at);
+
+-- Closed sections students asked to hear about when seats open up
+CREATE TABLE IF NOT EXISTS course_watches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  term TEXT NOT NULL,
+  course_id TEXT NOT NULL,
+  last_status TEXT, -- Status the student was last told about (O, C, W)
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (term, course_id) REFERENCES courses(term, id),
+  UNIQUE(user_id, term, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_watches ON course_watches(term, course_id);
+
+-- Major and minor requirement definitions loaded through /ingest-requirements
+CREATE TABLE IF NOT EXISTS degree_programs (
+  id TEXT PRIMARY KEY, -- e.g. cs-major
+  name TEXT NOT NULL,
+  type TEXT NOT NULL, -- major, minor
+  definition TEXT NOT NULL, -- JSON DegreeProgram (see src/degree-requirements.ts)
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Multi-semester plans; terms with scheduled sections take their courses from user_schedules
+CREATE TABLE IF NOT EXISTS academic_plans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL UNIQUE, -- One plan per user
+  start_term TEXT NOT NULL, -- First term (FA or SP); later terms alternate fall and spring
+  term_count INTEGER NOT NULL,
+  max_credits INTEGER NOT NULL DEFAULT 20, -- Per-term credit limit
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Courses placed into a plan's future terms
+CREATE TABLE IF NOT EXISTS plan_courses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  term TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  catalog_nbr TEXT NOT NULL,
+  credits INTEGER,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (plan_id) REFERENCES academic_plans(id),
+  UNIQUE(plan_id, subject, catalog_nbr)
+);
+
+-- Named drafts of a term's schedule; the active draft's sections are in user_schedules
+CREATE TABLE IF NOT EXISTS schedule_drafts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  term TEXT NOT NULL,
+  name TEXT NOT NULL COLLATE NOCASE, -- e.g. Main, Plan B
+  is_active INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(user_id, term, name)
 );
 
-CREATE INDEX IF NOT EXISTS idx_user_schedules ON user_schedules(user_id);
+-- Sections of inactive drafts, swapped into user_schedules when a draft is activated
+CREATE TABLE IF NOT EXISTS schedule_draft_courses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  draft_id INTEGER NOT NULL,
+  course_id TEXT NOT NULL,
+  notes TEXT,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Preserved across swaps for change notifications
+
+  FOREIGN KEY (draft_id) REFERENCES schedule_drafts(id),
+  UNIQUE(draft_id, course_id)
+);
@@ -2,12 +2,15 @@
  * Upload Cornell course data to Cloudflare
  *
  * Usage:
- *   node scripts/upload-courses.js [url] [file]
+ *   node scripts/upload-courses.js [url] [file] [term]
  *
  * Examples:
  *   node scripts/upload-courses.js http://localhost:8787
  *   node scripts/upload-courses.js http://localhost:8787 sample
  *   node scripts/upload-courses.js https://your-worker.workers.dev full
+ *   node scripts/upload-courses.js https://your-worker.workers.dev full SP27
+ *
+ * Requires INGEST_ADMIN_TOKEN to be set to a token from the Worker's INGEST_ADMIN_TOKENS secret
  */
 
 import { readFile } from "fs/promises";
@@ -21,6 +24,18 @@ async function uploadCourses() {
   // Get URL from command line or use localhost
   const url = process.argv[2] || "http://localhost:8787";
   const fileType = process.argv[3] || "sample"; // 'sample' or 'full'
+  const term = process.argv[4]; // e.g. 'FA26'; the Worker's current term if omitted
+  const token = process.env.INGEST_ADMIN_TOKEN;
+
+  if (!token) {
+    throw new Error(
+      "INGEST_ADMIN_TOKEN is not set. Use a token from the Worker's INGEST_ADMIN_TOKENS secret."
+    );
+  }
+  const headers = {
+    Authorization: `Bearer ${token}`,
+    "Content-Type": "application/json"
+  };
 
   // Choose file based on type
   const filename =
@@ -34,11 +49,29 @@ async function uploadCourses() {
   const courses = JSON.parse(coursesData);
 
   console.log(`Found ${courses.length} courses to upload`);
-  console.log(`Uploading to: ${url}/ingest-courses`);
 
-  // Upload in batches to avoid timeouts
-  const BATCH_SIZE = 45;
+  // Create a job so progress can be followed at /ingest-jobs/:id
+  const jobResponse = await fetch(`${url}/ingest-jobs`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ term, total: courses.length })
+  });
+  if (!jobResponse.ok) {
+    throw new Error(
+      `Failed to create ingestion job: HTTP ${jobResponse.status}: ${await jobResponse.text()}`
+    );
+  }
+  const job = await jobResponse.json();
+  const ingestUrl = `${url}/ingest-courses?jobId=${job.id}`;
+  console.log(`Uploading to: ${ingestUrl}`);
+  console.log(`Job status: ${url}/ingest-jobs/${job.id}`);
+
+  // Upload in batches small enough for one Worker invocation's D1 query limit,
+  // since each course takes several statements to write.
+  // Re-running skips courses that haven't changed since they were last ingested.
+  const BATCH_SIZE = 50;
   let totalSuccess = 0;
+  let totalSkipped = 0;
   let totalFailed = 0;
   const allErrors = [];
 
@@ -52,11 +85,9 @@ async function uploadCourses() {
     );
 
     try {
-      const response = await fetch(`${url}/ingest-courses`, {
+      const response = await fetch(ingestUrl, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
+        headers,
         body: JSON.stringify(batch)
       });
 
@@ -66,6 +97,7 @@ async function uploadCourses() {
 
       const result = await response.json();
       totalSuccess += result.success;
+      totalSkipped += result.skipped;
       totalFailed += result.failed;
 
       if (result.errors && result.errors.length > 0) {
@@ -73,7 +105,7 @@ async function uploadCourses() {
       }
 
       console.log(
-        `✓ Batch ${batchNum} complete: ${result.success} succeeded, ${result.failed} failed`
+        `✓ Batch ${batchNum} complete: ${result.success} succeeded, ${result.skipped} unchanged, ${result.failed} failed`
       );
     } catch (error) {
       console.error(`✗ Batch ${batchNum} failed:`, error.message);
@@ -83,7 +115,17 @@ async function uploadCourses() {
 
   console.log("\n" + "=".repeat(50));
   console.log("Upload complete!");
-  console.log(`Total: ${totalSuccess} succeeded, ${totalFailed} failed`);
+  console.log(
+    `Total: ${totalSuccess} succeeded, ${totalSkipped} unchanged, ${totalFailed} failed`
+  );
+
+  const statusResponse = await fetch(`${url}/ingest-jobs/${job.id}`, {
+    headers
+  });
+  if (statusResponse.ok) {
+    const status = await statusResponse.json();
+    console.log(`Job ${job.id}: ${status.status}`);
+  }
 
   if (allErrors.length > 0) {
     console.log("\nErrors:");
@@ -0,0 +1,61 @@
+/**
+ * Academic calendar configuration
+ * Instruction dates and university breaks per term, used to bound exported schedules
+ * Update each year from the registrar's published calendar
+ */
+
+export interface AcademicBreak {
+  name: string;
+  start: string; // ISO date, first day without classes
+  end: string; // ISO date, last day without classes
+}
+
+export interface AcademicTerm {
+  term: string;
+  startDate: string; // ISO date, first day of instruction
+  endDate: string; // ISO date, last day of instruction
+  breaks: AcademicBreak[];
+}
+
+/**
+ * Time zone that class meeting times are expressed in
+ */
+export const CAMPUS_TIME_ZONE = "America/New_York";
+
+export const ACADEMIC_CALENDAR: Record<string, AcademicTerm> = {
+  FA26: {
+    term: "FA26",
+    startDate: "2026-08-25",
+    endDate: "2026-12-07",
+    breaks: [
+      { name: "Labor Day", start: "2026-09-07", end: "2026-09-07" },
+      { name: "Fall Break", start: "2026-10-10", end: "2026-10-13" },
+      { name: "Thanksgiving Break", start: "2026-11-25", end: "2026-11-29" }
+    ]
+  },
+  SP27: {
+    term: "SP27",
+    startDate: "2027-01-26",
+    endDate: "2027-05-10",
+    breaks: [
+      { name: "February Break", start: "2027-02-27", end: "2027-03-02" },
+      { name: "Spring Break", start: "2027-03-27", end: "2027-04-04" }
+    ]
+  }
+};
+
+/**
+ * Look up the academic calendar for a normalized term code
+ */
+export function getAcademicTerm(term: string): AcademicTerm | null {
+  return ACADEMIC_CALENDAR[term] ?? null;
+}
+
+/**
+ * Check whether an ISO date falls inside one of the term's breaks
+ */
+export function isBreakDay(calendar: AcademicTerm, date: string): boolean {
+  return calendar.breaks.some(
+    (academicBreak) => date >= academicBreak.start && date <= academicBreak.end
+  );
+}
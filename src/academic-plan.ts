@@ -0,0 +1,355 @@
+/**
+ * Multi-semester academic plans
+ * A plan spans a run of fall and spring terms. Future terms hold course codes
+ * placed with addCourseToPlan, while terms the student has sections scheduled
+ * in (the current term) take their courses from user_schedules.
+ */
+
+import { termSortKey } from "./course-helpers";
+import {
+  formatPrereq,
+  parsePrerequisites,
+  unmetRequirements,
+  type ParsedPrerequisites
+} from "./prerequisites";
+
+export const DEFAULT_PLAN_TERMS = 8;
+export const DEFAULT_MAX_CREDITS = 20;
+
+/**
+ * Credits below which a term is flagged as part-time
+ */
+const MIN_FULL_TIME_CREDITS = 12;
+
+export interface AcademicPlan {
+  id: number;
+  start_term: string;
+  term_count: number;
+  max_credits: number;
+}
+
+export interface PlannedCourse {
+  code: string; // e.g. "CS 3110"
+  title: string | null;
+  credits: number;
+  source: "plan" | "schedule"; // Placed in the plan, or sections in the student's schedule
+  requisites: ParsedPrerequisites | null;
+}
+
+export interface PlanTerm {
+  term: string;
+  courses: PlannedCourse[];
+  credits: number;
+}
+
+export interface PlanIssue {
+  term: string;
+  course: string | null;
+  type:
+    | "prerequisite"
+    | "corequisite"
+    | "already_completed"
+    | "over_credit_limit"
+    | "under_full_time";
+  message: string;
+}
+
+/**
+ * The fall and spring terms a plan covers, e.g. FA26 → [FA26, SP27, FA27, ...]
+ */
+export function planTermCodes(startTerm: string, count: number): string[] {
+  const terms: string[] = [];
+  let season = startTerm.slice(0, 2);
+  let year = parseInt(startTerm.slice(2), 10);
+
+  for (let i = 0; i < count; i++) {
+    terms.push(`${season}${String(year).padStart(2, "0")}`);
+    if (season === "FA") {
+      season = "SP";
+      year++;
+    } else {
+      season = "FA";
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Check prerequisite ordering and credit limits across a plan's terms
+ * Prerequisites must be completed or planned in an earlier term; corequisites
+ * may also be planned in the same term
+ */
+export function validatePlan(
+  terms: PlanTerm[],
+  completed: Set<string>,
+  maxCredits: number
+): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  const ordered = [...terms].sort(
+    (a, b) => termSortKey(a.term) - termSortKey(b.term)
+  );
+
+  // Where each course is planned, to explain prerequisites placed too late
+  const plannedIn = new Map<string, string>();
+  for (const { term, courses } of ordered) {
+    for (const course of courses) plannedIn.set(course.code, term);
+  }
+
+  const before = new Set(completed);
+
+  for (const { term, courses, credits } of ordered) {
+    const thisTerm = new Set([...before, ...courses.map((c) => c.code)]);
+
+    for (const course of courses) {
+      if (completed.has(course.code)) {
+        issues.push({
+          term,
+          course: course.code,
+          type: "already_completed",
+          message: `${course.code} is planned for ${term} but already completed`
+        });
+        continue;
+      }
+
+      const checks = [
+        ["prerequisite", course.requisites?.prerequisites, before],
+        ["corequisite", course.requisites?.corequisites, thisTerm]
+      ] as const;
+
+      for (const [type, expr, satisfied] of checks) {
+        const unmet = unmetRequirements(expr ?? null, satisfied);
+        if (!unmet) continue;
+
+        const late = [...collectCodes(unmet)]
+          .filter((code) => plannedIn.has(code))
+          .map((code) => `${code} is planned for ${plannedIn.get(code)}`);
+        issues.push({
+          term,
+          course: course.code,
+          type,
+          message: `${course.code} in ${term} needs ${type} ${formatPrereq(unmet)}${late.length > 0 ? ` (${late.join(", ")})` : ""}`
+        });
+      }
+    }
+
+    if (credits > maxCredits) {
+      issues.push({
+        term,
+        course: null,
+        type: "over_credit_limit",
+        message: `${term} has ${credits} credits, over the ${maxCredits}-credit limit`
+      });
+    } else if (courses.length > 0 && credits < MIN_FULL_TIME_CREDITS) {
+      issues.push({
+        term,
+        course: null,
+        type: "under_full_time",
+        message: `${term} has ${credits} credits, under the ${MIN_FULL_TIME_CREDITS} needed to be full-time`
+      });
+    }
+
+    for (const course of courses) before.add(course.code);
+  }
+
+  return issues;
+}
+
+function collectCodes(
+  expr: NonNullable<ParsedPrerequisites["prerequisites"]>,
+  codes = new Set<string>()
+): Set<string> {
+  if (expr.type === "course") codes.add(expr.code);
+  else for (const item of expr.items) collectCodes(item, codes);
+  return codes;
+}
+
+function formatCourses(courses: PlannedCourse[]): string {
+  if (courses.length === 0) return "—";
+  return courses
+    .map(
+      (course) =>
+        `${course.code}${course.source === "schedule" ? " (scheduled)" : ""}`
+    )
+    .join(", ");
+}
+
+/**
+ * Render the plan as a markdown table with one row per term
+ */
+export function formatPlanTable(terms: PlanTerm[]): string {
+  const rows = terms.map(
+    ({ term, courses, credits }) =>
+      `| ${term} | ${formatCourses(courses)} | ${credits} |`
+  );
+  return ["| Term | Courses | Credits |", "| --- | --- | --- |", ...rows].join(
+    "\n"
+  );
+}
+
+/**
+ * Render the plan as a markdown grid with one row per academic year
+ * and fall and spring columns
+ */
+export function formatPlanGrid(terms: PlanTerm[]): string {
+  const years = new Map<number, { fall?: PlanTerm; spring?: PlanTerm }>();
+
+  for (const term of terms) {
+    const year = parseInt(term.term.slice(2), 10);
+    const fall = term.term.startsWith("FA");
+    const startYear = fall ? year : year - 1;
+    const entry = years.get(startYear) || {};
+    if (fall) entry.fall = term;
+    else entry.spring = term;
+    years.set(startYear, entry);
+  }
+
+  const cell = (term?: PlanTerm) =>
+    term
+      ? `**${term.term}** (${term.credits} cr)<br>${formatCourses(term.courses).replace(/, /g, "<br>")}`
+      : "";
+  const rows = [...years.entries()].map(
+    ([year, { fall, spring }]) =>
+      `| 20${year}–${String(year + 1).padStart(2, "0")} | ${cell(fall)} | ${cell(spring)} |`
+  );
+
+  return ["| Year | Fall | Spring |", "| --- | --- | --- |", ...rows].join(
+    "\n"
+  );
+}
+
+/**
+ * Load the user's plan, if they have one
+ */
+export async function getAcademicPlan(
+  env: Env,
+  userId: string
+): Promise<AcademicPlan | null> {
+  return env.DB.prepare(
+    "SELECT id, start_term, term_count, max_credits FROM academic_plans WHERE user_id = ?"
+  )
+    .bind(userId)
+    .first<AcademicPlan>();
+}
+
+interface CatalogCourse {
+  code: string;
+  title: string;
+  credits: number | null;
+  prerequisites: string | null;
+  prerequisites_parsed: string | null;
+}
+
+/**
+ * Course codes looked up per query, keeping each within D1's 100 bound parameters
+ */
+const CATALOG_CHUNK_SIZE = 100;
+
+/**
+ * Catalog details for course codes, from each course's most recent lecture row
+ */
+export async function lookupCatalogCourses(
+  env: Env,
+  codes: string[]
+): Promise<Map<string, CatalogCourse>> {
+  const found = new Map<string, CatalogCourse>();
+  const unique = [...new Set(codes)];
+  if (unique.length === 0) return found;
+
+  const statements = [];
+  for (let i = 0; i < unique.length; i += CATALOG_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + CATALOG_CHUNK_SIZE);
+    statements.push(
+      env.DB.prepare(
+        `SELECT subject || ' ' || catalog_nbr AS code, title, credits,
+                prerequisites, prerequisites_parsed
+         FROM courses
+         WHERE subject || ' ' || catalog_nbr IN (${chunk.map(() => "?").join(",")})
+         ORDER BY component IN ('LEC', 'SEM') DESC, updated_at DESC`
+      ).bind(...chunk)
+    );
+  }
+
+  // Each code falls in one chunk, so a chunk's first row for it is the best
+  for (const result of await env.DB.batch<CatalogCourse>(statements)) {
+    for (const row of result.results) {
+      if (!found.has(row.code)) found.set(row.code, row);
+    }
+  }
+
+  return found;
+}
+
+function parseRequisites(course?: CatalogCourse): ParsedPrerequisites | null {
+  if (!course) return null;
+  // Rows ingested before prerequisite parsing existed are parsed on the fly
+  return course.prerequisites_parsed
+    ? JSON.parse(course.prerequisites_parsed)
+    : parsePrerequisites(course.prerequisites);
+}
+
+/**
+ * Build each of the plan's terms from placed courses and scheduled sections
+ */
+export async function loadPlanTerms(
+  env: Env,
+  userId: string,
+  plan: AcademicPlan
+): Promise<PlanTerm[]> {
+  const termCodes = planTermCodes(plan.start_term, plan.term_count);
+  const placeholders = termCodes.map(() => "?").join(",");
+
+  const [placed, scheduled] = await env.DB.batch<{
+    term: string;
+    code: string;
+    credits: number | null;
+  }>([
+    env.DB.prepare(
+      `SELECT term, subject || ' ' || catalog_nbr AS code, credits
+       FROM plan_courses
+       WHERE plan_id = ?
+       ORDER BY subject, catalog_nbr`
+    ).bind(plan.id),
+    env.DB.prepare(
+      `SELECT us.term, c.subject || ' ' || c.catalog_nbr AS code, MAX(c.credits) AS credits
+       FROM user_schedules us
+       JOIN courses c ON c.id = us.course_id AND c.term = us.term
+       WHERE us.user_id = ? AND us.term IN (${placeholders})
+       GROUP BY us.term, c.subject, c.catalog_nbr
+       ORDER BY c.subject, c.catalog_nbr`
+    ).bind(userId, ...termCodes)
+  ]);
+
+  const catalog = await lookupCatalogCourses(env, [
+    ...new Set([...placed.results, ...scheduled.results].map((r) => r.code))
+  ]);
+
+  return termCodes.map((term) => {
+    const scheduledCodes = new Set(
+      scheduled.results.filter((r) => r.term === term).map((r) => r.code)
+    );
+    const rows = [
+      ...scheduled.results
+        .filter((r) => r.term === term)
+        .map((r) => ({ ...r, source: "schedule" as const })),
+      // A placed course that is also scheduled counts once
+      ...placed.results
+        .filter((r) => r.term === term && !scheduledCodes.has(r.code))
+        .map((r) => ({ ...r, source: "plan" as const }))
+    ];
+
+    const courses = rows.map((row) => ({
+      code: row.code,
+      title: catalog.get(row.code)?.title ?? null,
+      credits: row.credits ?? 0,
+      source: row.source,
+      requisites: parseRequisites(catalog.get(row.code))
+    }));
+
+    return {
+      term,
+      courses,
+      credits: courses.reduce((sum, course) => sum + course.credits, 0)
+    };
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Admin authentication for the ingestion endpoints
+ * Admins are configured in the INGEST_ADMIN_TOKENS secret as comma-separated
+ * name:token pairs (e.g. "alice:3f9a...,ci:b71c..."), so audit entries can name who ingested
+ */
+
+/**
+ * SHA-256 digest, so tokens of any length compare in constant time
+ */
+async function digest(value: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+}
+
+/**
+ * Compare two digests without short-circuiting on the first differing byte
+ */
+function digestsEqual(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Parse the INGEST_ADMIN_TOKENS secret into name/token pairs
+ */
+function parseAdminTokens(secret: string | undefined) {
+  return (secret || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.includes(":"))
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return {
+        name: entry.slice(0, separator).trim(),
+        token: entry.slice(separator + 1).trim()
+      };
+    })
+    .filter(({ name, token }) => name.length > 0 && token.length > 0);
+}
+
+/**
+ * Authenticate a request's bearer token
+ * Returns the admin's name, or null when the token is missing or unknown
+ */
+export async function authenticateAdmin(
+  request: Request,
+  env: Env
+): Promise<string | null> {
+  const header = request.headers.get("Authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const presented = await digest(match[1].trim());
+  let admin: string | null = null;
+
+  // Check every configured token so timing doesn't reveal which one matched
+  for (const { name, token } of parseAdminTokens(env.INGEST_ADMIN_TOKENS)) {
+    if (digestsEqual(presented, await digest(token))) {
+      admin = name;
+    }
+  }
+
+  return admin;
+}
+
+/**
+ * Response for requests without valid admin credentials
+ */
+export function unauthorizedResponse(): Response {
+  return Response.json(
+    { error: "Unauthorized" },
+    {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="ingest"' }
+    }
+  );
+}
@@ -5,6 +5,7 @@ import { isStaticToolUIPart } from "ai";
 import { useAgentChat } from "@cloudflare/ai-chat/react";
 import type { UIMessage } from "@ai-sdk/react";
 import type { tools } from "./tools";
+import type { ChatState } from "./shared";
 
 // Component imports
 import { Button } from "@/components/button/Button";
@@ -81,7 +82,7 @@ export default function Chat() {
     return id;
   });
 
-  const agent = useAgent({
+  const agent = useAgent<ChatState>({
     // Pass userId to route to user-specific Durable Object
     agent: "chat",
     name: userId // 'name' parameter specifies the DO instance
@@ -123,7 +124,7 @@ export default function Chat() {
     status,
     sendMessage,
     stop
-  } = useAgentChat<unknown, UIMessage<{ createdAt: string }>>({
+  } = useAgentChat<ChatState, UIMessage<{ createdAt: string }>>({
     agent
   });
 
@@ -150,7 +151,7 @@ export default function Chat() {
 
   return (
     <div className="h-screen w-full p-4 flex justify-center items-center bg-fixed overflow-hidden">
-      <HasOpenAIKey />
+      <ProviderHealth />
       <div className="h-[calc(100vh-2rem)] w-full mx-auto max-w-lg flex flex-col shadow-xl rounded-md overflow-hidden relative border border-neutral-300 dark:border-neutral-800">
         <div className="px-4 py-3 border-b border-neutral-300 dark:border-neutral-800 flex items-center gap-3 sticky top-0 z-10">
           <div className="flex items-center justify-center h-8 w-8">
@@ -429,14 +430,19 @@ export default function Chat() {
   );
 }
 
-const hasOpenAiKeyPromise = fetch("/check-open-ai-key").then((res) =>
-  res.json<{ success: boolean }>()
+const healthPromise = fetch("/health").then((res) =>
+  res.json<{
+    ok: boolean;
+    provider?: string;
+    missing?: string[];
+    error?: string;
+  }>()
 );
 
-function HasOpenAIKey() {
-  const hasOpenAiKey = use(hasOpenAiKeyPromise);
+function ProviderHealth() {
+  const health = use(healthPromise);
 
-  if (!hasOpenAiKey.success) {
+  if (!health.ok) {
     return (
       <div className="fixed top-0 left-0 right-0 z-50 bg-red-500/10 backdrop-blur-sm">
         <div className="max-w-3xl mx-auto p-4">
@@ -462,14 +468,20 @@ function HasOpenAIKey() {
               </div>
               <div className="flex-1">
                 <h3 className="text-lg font-semibold text-red-600 dark:text-red-400 mb-2">
-                  OpenAI API Key Not Configured
+                  LLM Provider Not Configured
                 </h3>
                 <p className="text-neutral-600 dark:text-neutral-300 mb-1">
                   Requests to the API, including from the frontend UI, will not
-                  work until an OpenAI API key is configured.
+                  work until the LLM provider is configured.
                 </p>
                 <p className="text-neutral-600 dark:text-neutral-300">
-                  Please configure an OpenAI API key by setting a{" "}
+                  {health.error ??
+                    `The ${health.provider} provider is missing ${health.missing?.join(", ")}.`}{" "}
+                  Set it in{" "}
+                  <code className="bg-red-100 dark:bg-red-900/30 px-1.5 py-0.5 rounded text-red-600 dark:text-red-400 font-mono text-sm">
+                    .dev.vars
+                  </code>{" "}
+                  locally or as a{" "}
                   <a
                     href="https://developers.cloudflare.com/workers/configuration/secrets/"
                     target="_blank"
@@ -478,20 +490,11 @@ function HasOpenAIKey() {
                   >
                     secret
                   </a>{" "}
-                  named{" "}
+                  in production, or choose another provider with{" "}
                   <code className="bg-red-100 dark:bg-red-900/30 px-1.5 py-0.5 rounded text-red-600 dark:text-red-400 font-mono text-sm">
-                    OPENAI_API_KEY
+                    LLM_PROVIDER
                   </code>
-                  . <br />
-                  You can also use a different model provider by following these{" "}
-                  <a
-                    href="https://github.com/cloudflare/agents-starter?tab=readme-ov-file#use-a-different-ai-model-provider"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-red-600 dark:text-red-400"
-                  >
-                    instructions.
-                  </a>
+                  .
                 </p>
               </div>
             </div>
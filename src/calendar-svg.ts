@@ -3,13 +3,18 @@
  * Generates a visual weekly calendar from course data
  */
 
-import { timeToMinutes } from "./course-helpers";
+import {
+  type CourseWithMeetings,
+  DAY_CODES,
+  DAY_NAMES,
+  minutesToTime
+} from "./course-helpers";
 
 interface CourseBlock {
   course: string;
   title: string;
-  startTime: string;
-  endTime: string;
+  startMinutes: number;
+  endMinutes: number;
   color: string;
 }
 
@@ -33,8 +38,7 @@ const DEFAULT_CONFIG: CalendarConfig = {
   endHour: 20
 };
 
-const DAYS = ["M", "T", "W", "R", "F"];
-const DAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+const WEEKDAYS = DAY_CODES.slice(0, 5);
 const COLORS = [
   "#3b82f6",
   "#ef4444",
@@ -66,14 +70,14 @@ function generateSVGHeader(config: CalendarConfig): string {
 /**
  * Generate the calendar header with day names
  */
-function generateHeader(config: CalendarConfig): string {
-  const dayWidth = (config.width - config.timeColumnWidth) / 5;
+function generateHeader(config: CalendarConfig, days: string[]): string {
+  const dayWidth = (config.width - config.timeColumnWidth) / days.length;
   let header = `<rect width="${config.width}" height="${config.headerHeight}" fill="#e2e8f0"/>`;
 
-  DAY_NAMES.forEach((dayName, i) => {
+  days.forEach((day, i) => {
     const x = config.timeColumnWidth + i * dayWidth + dayWidth / 2;
     const y = config.headerHeight / 2 + 5;
-    header += `<text x="${x}" y="${y}" text-anchor="middle" class="header-text">${dayName}</text>`;
+    header += `<text x="${x}" y="${y}" text-anchor="middle" class="header-text">${DAY_NAMES[day]}</text>`;
   });
 
   return header;
@@ -82,9 +86,9 @@ function generateHeader(config: CalendarConfig): string {
 /**
  * Generate time labels and grid lines
  */
-function generateTimeGrid(config: CalendarConfig): string {
+function generateTimeGrid(config: CalendarConfig, days: string[]): string {
   let grid = "";
-  const dayWidth = (config.width - config.timeColumnWidth) / 5;
+  const dayWidth = (config.width - config.timeColumnWidth) / days.length;
 
   // Horizontal time lines
   for (let hour = config.startHour; hour <= config.endHour; hour++) {
@@ -97,7 +101,7 @@ function generateTimeGrid(config: CalendarConfig): string {
   }
 
   // Vertical day dividers
-  DAYS.forEach((_, i) => {
+  days.forEach((_, i) => {
     const x = config.timeColumnWidth + i * dayWidth;
     grid += `<line x1="${x}" y1="${config.headerHeight}" x2="${x}" y2="${config.height}" stroke="#e2e8f0" stroke-width="1"/>`;
   });
@@ -116,10 +120,13 @@ function formatHourLabel(hour: number): string {
 
 /**
  * Parse course meetings and organize by day
+ * TBA meetings have no time slot and are left off the calendar
  */
-function parseCourseMeetings(courses: any[]): Map<string, CourseBlock[]> {
+function parseCourseMeetings(
+  courses: CourseWithMeetings[]
+): Map<string, CourseBlock[]> {
   const dayMap = new Map<string, CourseBlock[]>();
-  for (const day of DAYS) {
+  for (const day of DAY_CODES) {
     dayMap.set(day, []);
   }
 
@@ -138,30 +145,29 @@ function parseCourseMeetings(courses: any[]): Map<string, CourseBlock[]> {
   });
 
   courses.forEach((course) => {
-    const meetings = JSON.parse(course.meetings) as string[];
     const courseKey = `${course.subject} ${course.catalog_nbr}`;
     const color = courseColorMap.get(courseKey)!;
 
-    meetings.forEach((meeting) => {
-      const parts = meeting.split(" ");
-      if (parts.length < 2) return;
-
-      const [daysStr, timeStr] = parts;
-      const [startTime, endTime] = timeStr.split("-");
+    course.parsedMeetings.forEach((meeting) => {
+      if (
+        meeting.tba ||
+        meeting.startMinutes === null ||
+        meeting.endMinutes === null
+      ) {
+        return;
+      }
 
       // Add block to each day
-      for (const dayCode of daysStr.split("")) {
-        if (DAYS.includes(dayCode)) {
-          const blocks = dayMap.get(dayCode) || [];
-          blocks.push({
-            course: courseKey,
-            title: course.title,
-            startTime,
-            endTime,
-            color
-          });
-          dayMap.set(dayCode, blocks);
-        }
+      for (const dayCode of meeting.days) {
+        const blocks = dayMap.get(dayCode) || [];
+        blocks.push({
+          course: courseKey,
+          title: course.title,
+          startMinutes: meeting.startMinutes,
+          endMinutes: meeting.endMinutes,
+          color
+        });
+        dayMap.set(dayCode, blocks);
       }
     });
   });
@@ -174,23 +180,22 @@ function parseCourseMeetings(courses: any[]): Map<string, CourseBlock[]> {
  */
 function generateCourseBlocks(
   dayMap: Map<string, CourseBlock[]>,
-  config: CalendarConfig
+  config: CalendarConfig,
+  days: string[]
 ): string {
   let blocks = "";
-  const dayWidth = (config.width - config.timeColumnWidth) / 5;
+  const dayWidth = (config.width - config.timeColumnWidth) / days.length;
 
-  DAYS.forEach((day, dayIdx) => {
+  days.forEach((day, dayIdx) => {
     const courseBlocks = dayMap.get(day) || [];
 
     courseBlocks.forEach((block) => {
-      const startMin = timeToMinutes(block.startTime);
-      const endMin = timeToMinutes(block.endTime);
-
       // Calculate position and size
       const startY =
         config.headerHeight +
-        (startMin / 60 - config.startHour) * config.hourHeight;
-      const blockHeight = ((endMin - startMin) / 60) * config.hourHeight;
+        (block.startMinutes / 60 - config.startHour) * config.hourHeight;
+      const blockHeight =
+        ((block.endMinutes - block.startMinutes) / 60) * config.hourHeight;
       const x = config.timeColumnWidth + dayIdx * dayWidth + 5;
       const blockWidth = dayWidth - 10;
 
@@ -202,8 +207,11 @@ function generateCourseBlocks(
       blocks += `<text x="${textX}" y="${startY + 18}" text-anchor="middle" class="course-text">${block.course}</text>`;
 
       // Add time text
-      const shortStart = block.startTime.replace(/([AP]M)/, "").trim();
-      const shortEnd = block.endTime.replace(/([AP]M)/, "").trim();
+      const shortStart = minutesToTime(block.startMinutes).replace(
+        /([AP]M)/,
+        ""
+      );
+      const shortEnd = minutesToTime(block.endMinutes).replace(/([AP]M)/, "");
       blocks += `<text x="${textX}" y="${startY + 32}" text-anchor="middle" class="course-text" opacity="0.9">${shortStart}-${shortEnd}</text>`;
     });
   });
@@ -214,14 +222,42 @@ function generateCourseBlocks(
 /**
  * Generate complete SVG calendar visualization
  */
-export function generateSVGCalendar(courses: any[]): string {
-  const config = DEFAULT_CONFIG;
+export function generateSVGCalendar(courses: CourseWithMeetings[]): string {
+  const dayMap = parseCourseMeetings(courses);
+  const blocks = Array.from(dayMap.values()).flat();
+
+  // Show weekend columns only when something meets on them
+  const days = DAY_CODES.filter(
+    (day) => WEEKDAYS.includes(day) || dayMap.get(day)!.length > 0
+  );
+
+  // Stretch the visible hours to fit early or late meetings
+  const startHour = Math.min(
+    DEFAULT_CONFIG.startHour,
+    ...blocks.map((block) => Math.floor(block.startMinutes / 60))
+  );
+  const endHour = Math.max(
+    DEFAULT_CONFIG.endHour,
+    ...blocks.map((block) => Math.ceil(block.endMinutes / 60))
+  );
+  const config: CalendarConfig = {
+    ...DEFAULT_CONFIG,
+    startHour,
+    endHour,
+    height:
+      DEFAULT_CONFIG.height +
+      (DEFAULT_CONFIG.startHour -
+        startHour +
+        endHour -
+        DEFAULT_CONFIG.endHour) *
+        DEFAULT_CONFIG.hourHeight
+  };
 
   const svg = [
     generateSVGHeader(config),
-    generateHeader(config),
-    generateTimeGrid(config),
-    generateCourseBlocks(parseCourseMeetings(courses), config),
+    generateHeader(config, days),
+    generateTimeGrid(config, days),
+    generateCourseBlocks(dayMap, config, days),
     "</svg>"
   ].join("\n");
 
@@ -229,36 +265,65 @@ export function generateSVGCalendar(courses: any[]): string {
 }
 
 /**
- * Upload SVG to temporary hosting service
- * Returns the direct URL to the uploaded image
+ * How long a stored calendar is kept after it was last rendered
  */
-export async function uploadSVGImage(
-  svgContent: string
-): Promise<string | null> {
-  try {
-    const formData = new FormData();
-    const blob = new Blob([svgContent], { type: "image/svg+xml" });
-    formData.append("files", blob, "schedule.svg");
-    formData.append("expiryHours", "24");
-
-    const response = await fetch("https://tempfile.org/api/upload/local", {
-      method: "POST",
-      body: formData
-    });
+const CALENDAR_RETENTION_DAYS = 7;
 
-    const responseText = await response.text();
-    const data = JSON.parse(responseText);
+/**
+ * Hash SVG content so identical schedules map to the same stored image
+ */
+async function hashSVG(svgContent: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(svgContent)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 32);
+}
 
-    if (data.success && data.files && data.files.length > 0) {
-      const baseUrl = data.files[0].url;
-      const downloadUrl = `${baseUrl}download`;
-      return downloadUrl;
-    }
+/**
+ * Store a rendered calendar in D1 and return the Worker path that serves it
+ * Identical SVGs reuse the same row; calendars not rendered recently are deleted
+ */
+export async function storeSVGCalendar(
+  env: Env,
+  userId: string,
+  svgContent: string
+): Promise<string> {
+  const hash = await hashSVG(svgContent);
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO calendar_images (user_id, hash, svg)
+       VALUES (?, ?, ?)
+       ON CONFLICT(user_id, hash) DO UPDATE SET
+         last_rendered_at = CURRENT_TIMESTAMP`
+    ).bind(userId, hash, svgContent),
+    env.DB.prepare(
+      `DELETE FROM calendar_images
+       WHERE user_id = ? AND hash != ?
+       AND last_rendered_at < datetime('now', ?)`
+    ).bind(userId, hash, `-${CALENDAR_RETENTION_DAYS} days`)
+  ]);
+
+  return `/calendar/${userId}/${hash}.svg`;
+}
 
-    console.error("[uploadSVGImage] Upload failed:", data);
-    return null;
-  } catch (error) {
-    console.error("[uploadSVGImage] Upload error:", error);
-    return null;
-  }
+/**
+ * Look up a stored calendar by user and content hash
+ */
+export async function getStoredSVGCalendar(
+  env: Env,
+  userId: string,
+  hash: string
+): Promise<string | null> {
+  const row = await env.DB.prepare(
+    "SELECT svg FROM calendar_images WHERE user_id = ? AND hash = ?"
+  )
+    .bind(userId, hash)
+    .first<{ svg: string }>();
+
+  return row?.svg ?? null;
 }
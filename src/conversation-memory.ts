@@ -0,0 +1,158 @@
+/**
+ * Conversation memory
+ * Keeps a token-budgeted window of recent messages and condenses older turns
+ * into a rolling summary so earlier course discussions aren't forgotten
+ */
+
+import { generateText, type LanguageModel, type UIMessage } from "ai";
+
+/**
+ * Approximate token budget for the messages sent with each request
+ */
+export const MESSAGE_TOKEN_BUDGET = 8000;
+
+/**
+ * Cap on course references carried in the summary
+ */
+const MAX_COURSE_REFERENCES = 40;
+
+/**
+ * Characters of each tool output included in the summarizer's transcript
+ */
+const TOOL_OUTPUT_PREVIEW_CHARS = 600;
+
+export interface ConversationSummary {
+  summary: string;
+  courseRefs: string[]; // e.g. "CS 2110 (ID 12345)"
+  lastMessageId: string; // Last message folded into the summary
+}
+
+/**
+ * Rough token estimate (about 4 characters per token) for a message's parts
+ */
+export function estimateTokens(message: UIMessage): number {
+  return Math.ceil(JSON.stringify(message.parts).length / 4);
+}
+
+/**
+ * Index of the first message in the window: the newest messages that fit the budget
+ * The window always starts at a user message so tool calls aren't split from their turn
+ */
+export function findWindowStart(
+  messages: UIMessage[],
+  budget = MESSAGE_TOKEN_BUDGET
+): number {
+  let start = messages.length;
+  let tokens = 0;
+
+  while (start > 0) {
+    tokens += estimateTokens(messages[start - 1]);
+    if (tokens > budget && start < messages.length) break;
+    start--;
+  }
+
+  while (start > 0 && start < messages.length - 1) {
+    if (messages[start].role === "user") break;
+    start++;
+  }
+
+  return start;
+}
+
+/**
+ * Collect course references (subject, catalog number and course ID) from tool output
+ */
+function collectCourseRefs(value: unknown, refs: Set<string>) {
+  if (Array.isArray(value)) {
+    for (const item of value) collectCourseRefs(item, refs);
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+
+  const record = value as Record<string, unknown>;
+  const catalogNbr = record.catalog_nbr ?? record.catalogNbr;
+  const id = record.id ?? record.courseId;
+  if (record.subject && catalogNbr && id) {
+    refs.add(`${record.subject} ${catalogNbr} (ID ${id})`);
+  }
+
+  for (const child of Object.values(record)) {
+    collectCourseRefs(child, refs);
+  }
+}
+
+/**
+ * Course references surfaced by tools in the given messages
+ */
+export function extractCourseRefs(messages: UIMessage[]): string[] {
+  const refs = new Set<string>();
+
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (part.type.startsWith("tool-") && "output" in part) {
+        collectCourseRefs(part.output, refs);
+      }
+    }
+  }
+
+  return [...refs];
+}
+
+/**
+ * Plain-text transcript of messages for the summarizer
+ */
+function formatTranscript(messages: UIMessage[]): string {
+  return messages
+    .map((message) => {
+      const content = message.parts
+        .map((part) => {
+          if (part.type === "text") return part.text;
+          if (part.type.startsWith("tool-") && "output" in part) {
+            const output = JSON.stringify(part.output ?? null);
+            return `[${part.type.slice("tool-".length)} result] ${output.slice(0, TOOL_OUTPUT_PREVIEW_CHARS)}`;
+          }
+          return null;
+        })
+        .filter(Boolean)
+        .join("\n");
+      return `${message.role.toUpperCase()}: ${content}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Fold evicted messages into the rolling summary
+ */
+export async function summarizeMessages(
+  model: LanguageModel,
+  previous: ConversationSummary | null,
+  evicted: UIMessage[]
+): Promise<ConversationSummary> {
+  const { text } = await generateText({
+    model,
+    system:
+      "You maintain a running summary of a conversation between a Cornell student and a course scheduling assistant. Update the summary with the new messages. Keep it under 200 words. Preserve the student's goals and constraints (interests, year, time preferences), courses discussed with their course IDs, and decisions made (courses added, removed or rejected). Write plain sentences, no preamble.",
+    prompt: `Current summary:\n${previous?.summary || "(none)"}\n\nNew messages:\n${formatTranscript(evicted)}`
+  });
+
+  const courseRefs = [
+    ...new Set([...(previous?.courseRefs ?? []), ...extractCourseRefs(evicted)])
+  ].slice(-MAX_COURSE_REFERENCES);
+
+  return {
+    summary: text.trim(),
+    courseRefs,
+    lastMessageId: evicted[evicted.length - 1].id
+  };
+}
+
+/**
+ * Context block injected ahead of the message window
+ */
+export function formatSummaryContext(summary: ConversationSummary): string {
+  let context = `EARLIER IN THIS CONVERSATION (older messages summarized):\n${summary.summary}`;
+  if (summary.courseRefs.length > 0) {
+    context += `\nCourses referenced earlier: ${summary.courseRefs.join(", ")}`;
+  }
+  return context;
+}
@@ -0,0 +1,108 @@
+/**
+ * Catalog change tracking
+ * Diffs re-ingested sections against their stored rows and records what changed
+ */
+
+/**
+ * The stored columns of a section that ingestion compares against
+ */
+export interface StoredCourse {
+  id: string;
+  content_hash: string | null;
+  title: string;
+  credits: number | null;
+  status: string | null;
+  meetings: string | null; // JSON array of meeting strings
+  instructors: string | null; // JSON array of instructor names
+  prerequisites: string | null;
+  text_for_embedding: string | null;
+}
+
+/**
+ * The incoming values compared against a stored section
+ */
+export interface IncomingCourse {
+  title: string;
+  credits: number;
+  status: string;
+  meetings: string[];
+  instructors: string[];
+  prereqs: string;
+}
+
+export interface CourseChange {
+  field: string; // title, credits, status, meetings, instructors, prerequisites
+  oldValue: string;
+  newValue: string;
+}
+
+/**
+ * Row shape of the course_changes table
+ */
+export interface CourseChangeRow {
+  id: number;
+  term: string;
+  course_id: string;
+  subject: string;
+  catalog_nbr: string;
+  component: string | null;
+  section: string | null;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  detected_at: string;
+  notified_at: string | null;
+}
+
+/**
+ * Format a stored JSON array column for display
+ */
+function formatStoredList(json: string | null, separator: string): string {
+  return json ? (JSON.parse(json) as string[]).join(separator) : "";
+}
+
+/**
+ * List the student-visible fields that differ between a stored section and its new data
+ */
+export function diffCourse(
+  previous: StoredCourse,
+  course: IncomingCourse
+): CourseChange[] {
+  const fields: [string, string, string][] = [
+    ["title", previous.title, course.title],
+    ["credits", String(previous.credits ?? ""), String(course.credits)],
+    ["status", previous.status ?? "", course.status],
+    [
+      "meetings",
+      formatStoredList(previous.meetings, "; "),
+      course.meetings.join("; ")
+    ],
+    [
+      "instructors",
+      formatStoredList(previous.instructors, ", "),
+      course.instructors.join(", ")
+    ],
+    ["prerequisites", previous.prerequisites ?? "", course.prereqs]
+  ];
+
+  return fields
+    .filter(([, oldValue, newValue]) => oldValue !== newValue)
+    .map(([field, oldValue, newValue]) => ({ field, oldValue, newValue }));
+}
+
+/**
+ * Describe a recorded change for the agent, e.g.
+ * "CS 3110 LEC 001 meetings changed from "TR 10:10AM-11:25AM" to "MW 10:10AM-11:25AM""
+ */
+export function describeCourseChange(change: CourseChangeRow): string {
+  const label = [
+    change.subject,
+    change.catalog_nbr,
+    change.component,
+    change.section
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return `${label} ${change.field} changed from "${change.old_value || "(none)"}" to "${change.new_value || "(none)"}"`;
+}
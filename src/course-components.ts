@@ -0,0 +1,210 @@
+/**
+ * Course component structure
+ * Cornell courses are taken as a set of linked sections, one per required
+ * component (e.g. LEC + DIS, LEC + LAB). Sections must come from the same
+ * enrollment group, and within it share an associated class number.
+ */
+
+import {
+  attachMeetings,
+  findConflicts,
+  STATUS_LABELS,
+  type Course,
+  type CourseWithMeetings
+} from "./course-helpers";
+
+/**
+ * The columns of a section that describe its place in the course structure
+ */
+export interface SectionInfo {
+  id: string;
+  subject: string;
+  catalog_nbr: string;
+  component: string | null;
+  section: string | null;
+  enroll_group: number | null;
+  assoc_class: string | null;
+  components_required: string | null; // JSON array, when ingested from the roster
+  components_optional: string | null;
+}
+
+export interface EnrollmentCheck {
+  missing: string[]; // Required components with no section chosen
+  duplicates: string[]; // Components with more than one section chosen
+  incompatible: [string, string][]; // Pairs of section labels that aren't linked
+}
+
+/**
+ * Label a section, e.g. "CS 2110 DIS 201"
+ */
+export function sectionLabel(section: SectionInfo): string {
+  return [
+    section.subject,
+    section.catalog_nbr,
+    section.component,
+    section.section
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Whether two sections can be taken together: same enrollment group, and the
+ * same associated class when both have one
+ */
+export function sectionsCompatible(a: SectionInfo, b: SectionInfo): boolean {
+  if (
+    a.enroll_group !== null &&
+    b.enroll_group !== null &&
+    a.enroll_group !== b.enroll_group
+  ) {
+    return false;
+  }
+  return !a.assoc_class || !b.assoc_class || a.assoc_class === b.assoc_class;
+}
+
+/**
+ * Components a student must enroll in, given the sections chosen so far
+ * Uses the roster's required components when ingested; otherwise every
+ * component offered in the chosen enrollment group is required
+ */
+export function requiredComponents(
+  allSections: SectionInfo[],
+  selected: SectionInfo[]
+): string[] {
+  const group = selected.find((s) => s.enroll_group !== null)?.enroll_group;
+  const groupSections =
+    group === undefined || group === null
+      ? allSections
+      : allSections.filter(
+          (s) => s.enroll_group === null || s.enroll_group === group
+        );
+
+  const declared = groupSections.find((s) => s.components_required);
+  if (declared) {
+    return JSON.parse(declared.components_required!) as string[];
+  }
+
+  const optional = new Set(
+    groupSections.flatMap((s) =>
+      s.components_optional
+        ? (JSON.parse(s.components_optional) as string[])
+        : []
+    )
+  );
+  return [
+    ...new Set(
+      groupSections
+        .map((s) => s.component)
+        .filter((c): c is string => !!c && !optional.has(c))
+    )
+  ];
+}
+
+/**
+ * Check a course's chosen sections for missing, duplicate and unlinked components
+ */
+export function checkEnrollment(
+  allSections: SectionInfo[],
+  selected: SectionInfo[]
+): EnrollmentCheck {
+  const chosen = new Set(selected.map((s) => s.component));
+  const counts = new Map<string | null, number>();
+  for (const s of selected) {
+    counts.set(s.component, (counts.get(s.component) ?? 0) + 1);
+  }
+
+  const incompatible: [string, string][] = [];
+  for (let i = 0; i < selected.length; i++) {
+    for (let j = i + 1; j < selected.length; j++) {
+      if (!sectionsCompatible(selected[i], selected[j])) {
+        incompatible.push([
+          sectionLabel(selected[i]),
+          sectionLabel(selected[j])
+        ]);
+      }
+    }
+  }
+
+  return {
+    missing: requiredComponents(allSections, selected).filter(
+      (component) => !chosen.has(component)
+    ),
+    duplicates: [...counts]
+      .filter(([component, count]) => component && count > 1)
+      .map(([component]) => component!),
+    incompatible
+  };
+}
+
+/**
+ * Sections of a component that can be taken with every chosen section
+ */
+export function sectionOptions<T extends SectionInfo>(
+  allSections: T[],
+  selected: SectionInfo[],
+  component: string
+): T[] {
+  return allSections.filter(
+    (s) =>
+      s.component === component &&
+      selected.every((chosen) => sectionsCompatible(s, chosen))
+  );
+}
+
+/**
+ * Sections that add no time conflicts to the rest of a schedule
+ */
+export function sectionsThatFit<T extends CourseWithMeetings>(
+  candidates: T[],
+  others: CourseWithMeetings[]
+): T[] {
+  const existingConflicts = findConflicts(others).length;
+  return candidates.filter(
+    (candidate) =>
+      findConflicts([candidate, ...others]).length === existingConflicts
+  );
+}
+
+export interface SectionChoice {
+  component: string;
+  options: {
+    courseId: string;
+    section: string;
+    meetings: string[];
+    status: string;
+    conflicts: boolean;
+  }[];
+}
+
+/**
+ * The sections a student can pick for each missing component, with their
+ * meetings and whether they conflict with the rest of the schedule
+ */
+export async function loadSectionChoices<T extends Course & SectionInfo>(
+  env: Env,
+  allSections: T[],
+  selected: SectionInfo[],
+  missing: string[],
+  conflicts: (option: CourseWithMeetings) => boolean
+): Promise<SectionChoice[]> {
+  const options = await attachMeetings(
+    env,
+    missing.flatMap((component) =>
+      sectionOptions(allSections, selected, component)
+    )
+  );
+
+  return missing.map((component) => ({
+    component,
+    options: options
+      .filter((option) => option.component === component)
+      .map((option) => ({
+        courseId: option.id,
+        section: sectionLabel(option),
+        meetings: option.parsedMeetings.map((m) => m.raw),
+        status: STATUS_LABELS[option.status] || option.status,
+        conflicts: conflicts(option)
+      }))
+  }));
+}
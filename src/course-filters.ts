@@ -0,0 +1,260 @@
+/**
+ * Structured course filters shared by searchCourses and advancedCourseSearch
+ * Builds both D1 SQL conditions and Vectorize metadata filters from the same inputs
+ */
+import { z } from "zod/v3";
+import { dayMask, parseDays, timeToMinutes } from "./course-helpers";
+
+/**
+ * Filters a student can apply to a course search
+ */
+export interface CourseFilters {
+  subject?: string;
+  credits?: number;
+  minCredits?: number;
+  maxCredits?: number;
+  catalogNbrStart?: string;
+  distributionReq?: string;
+  dayOfWeek?: string;
+  excludeDays?: string;
+  earliestStart?: string; // e.g. "10:00AM"
+  latestEnd?: string; // e.g. "05:00PM"
+  minDuration?: number; // Minutes per meeting
+  maxDuration?: number;
+}
+
+/**
+ * Times like "10:00AM" or "5:00 PM"
+ */
+export const TIME_PATTERN = /^\d{1,2}:\d{2}\s*(AM|PM)$/i;
+const DAY_PATTERN_MESSAGE =
+  "Use day codes M, T, W, R, F, S, Su (e.g., 'MW', 'TR')";
+
+/**
+ * Zod fields for CourseFilters, spread into each search tool's input schema
+ */
+export const courseFilterFields = {
+  subject: z
+    .string()
+    .optional()
+    .describe("Subject code (e.g., 'CS', 'AAS', 'MATH')"),
+  credits: z.number().optional().describe("Number of credits (e.g., 3, 4)"),
+  minCredits: z.number().optional().describe("Minimum credits"),
+  maxCredits: z.number().optional().describe("Maximum credits"),
+  catalogNbrStart: z
+    .string()
+    .optional()
+    .describe("Class level (e.g., '1000' for 1000-level, '2' for 2000-level)"),
+  distributionReq: z
+    .string()
+    .optional()
+    .describe("Distribution requirement (e.g., 'GLC-AS', 'MQR-AS', 'CA-AG')"),
+  dayOfWeek: z
+    .string()
+    .refine((days) => parseDays(days) !== null, DAY_PATTERN_MESSAGE)
+    .optional()
+    .describe(
+      "Days the course must meet on (M, T, W, R, F, S, Su or combinations like 'MW', 'TR')"
+    ),
+  excludeDays: z
+    .string()
+    .refine((days) => parseDays(days) !== null, DAY_PATTERN_MESSAGE)
+    .optional()
+    .describe(
+      "Days the course must not meet on (e.g., 'F' for no Friday classes). For 'only on TR' use dayOfWeek 'TR' with excludeDays 'MWF'"
+    ),
+  earliestStart: z
+    .string()
+    .regex(TIME_PATTERN, "Use a time like '10:00AM'")
+    .optional()
+    .describe("Every meeting starts at or after this time (e.g., '02:00PM')"),
+  latestEnd: z
+    .string()
+    .regex(TIME_PATTERN, "Use a time like '05:00PM'")
+    .optional()
+    .describe("Every meeting ends at or before this time (e.g., '05:00PM')"),
+  minDuration: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Minimum length of each meeting in minutes (e.g., 75)"),
+  maxDuration: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum length of each meeting in minutes (e.g., 50)")
+};
+
+/**
+ * Day codes with a boolean "meets<Day>" field in the vector metadata
+ */
+export const METADATA_DAYS = ["M", "T", "W", "R", "F"];
+
+/**
+ * Convert a catalog number prefix to the inclusive numeric range it covers
+ * "2" → 2000-2999, "41" → 4100-4199, "4780" → 4780-4780
+ */
+export function catalogNbrRange(
+  prefix: string
+): { min: number; max: number } | null {
+  if (!/^\d{1,4}$/.test(prefix)) return null;
+
+  const scale = 10 ** (4 - prefix.length);
+  const min = parseInt(prefix, 10) * scale;
+  return { min, max: min + scale - 1 };
+}
+
+/**
+ * Build SQL conditions for the filters against the courses table
+ * table is the name or alias the courses table has in the query (e.g. "c")
+ */
+export function buildSqlFilters(
+  filters: CourseFilters,
+  table = "courses"
+): { conditions: string[]; params: unknown[] } {
+  const column = `${table}.`;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.subject) {
+    conditions.push(`${column}subject = ?`);
+    params.push(filters.subject.toUpperCase());
+  }
+
+  if (filters.credits) {
+    conditions.push(`${column}credits = ?`);
+    params.push(filters.credits);
+  }
+
+  if (filters.minCredits) {
+    conditions.push(`${column}credits >= ?`);
+    params.push(filters.minCredits);
+  }
+
+  if (filters.maxCredits) {
+    conditions.push(`${column}credits <= ?`);
+    params.push(filters.maxCredits);
+  }
+
+  if (filters.distributionReq) {
+    // Since Cornell's API does not have FWS in the attributes field, we check to see if the course title has FWS in it.
+    if (filters.distributionReq.toUpperCase() === "FWS") {
+      conditions.push(`${column}title LIKE ?`);
+      params.push(`FWS:%`);
+    } else {
+      conditions.push(`${column}attributes LIKE ?`);
+      params.push(`%"${filters.distributionReq}"%`);
+    }
+  }
+
+  if (filters.catalogNbrStart) {
+    conditions.push(`${column}catalog_nbr LIKE ?`);
+    params.push(`${filters.catalogNbrStart}%`);
+  }
+
+  // Require a meeting on each requested day, using the parsed course_meetings
+  for (const day of parseDays(filters.dayOfWeek || "") ?? []) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM course_meetings cm
+      WHERE cm.term = ${column}term AND cm.course_id = ${column}id
+      AND (cm.day_mask & ?) != 0
+    )`);
+    params.push(dayMask([day]));
+  }
+
+  const excluded = parseDays(filters.excludeDays || "") ?? [];
+  if (excluded.length > 0) {
+    conditions.push(`NOT EXISTS (
+      SELECT 1 FROM course_meetings cm
+      WHERE cm.term = ${column}term AND cm.course_id = ${column}id
+      AND (cm.day_mask & ?) != 0
+    )`);
+    params.push(dayMask(excluded));
+  }
+
+  // Time filters apply to every scheduled meeting; sections with only TBA
+  // meetings have no times to check and are left out
+  const timeChecks: string[] = [];
+  const timeParams: unknown[] = [];
+  if (filters.earliestStart && TIME_PATTERN.test(filters.earliestStart)) {
+    timeChecks.push("cm.start_min < ?");
+    timeParams.push(timeToMinutes(filters.earliestStart));
+  }
+  if (filters.latestEnd && TIME_PATTERN.test(filters.latestEnd)) {
+    timeChecks.push("cm.end_min > ?");
+    timeParams.push(timeToMinutes(filters.latestEnd));
+  }
+  if (filters.minDuration) {
+    timeChecks.push("cm.end_min - cm.start_min < ?");
+    timeParams.push(filters.minDuration);
+  }
+  if (filters.maxDuration) {
+    timeChecks.push("cm.end_min - cm.start_min > ?");
+    timeParams.push(filters.maxDuration);
+  }
+  if (timeChecks.length > 0) {
+    conditions.push(
+      `EXISTS (
+      SELECT 1 FROM course_meetings cm
+      WHERE cm.term = ${column}term AND cm.course_id = ${column}id AND cm.tba = 0
+    )`,
+      `NOT EXISTS (
+      SELECT 1 FROM course_meetings cm
+      WHERE cm.term = ${column}term AND cm.course_id = ${column}id AND cm.tba = 0
+      AND (${timeChecks.join(" OR ")})
+    )`
+    );
+    params.push(...timeParams);
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Build a Vectorize metadata filter for the filters in a term
+ * Distribution requirements (attributes are a list) and meeting times can't be
+ * expressed as metadata, so callers must still apply buildSqlFilters when
+ * loading candidates from D1
+ */
+export function buildVectorizeFilter(
+  term: string,
+  filters: CourseFilters
+): VectorizeVectorMetadataFilter {
+  const filter: VectorizeVectorMetadataFilter = { term };
+
+  if (filters.subject) {
+    filter.subject = filters.subject.toUpperCase();
+  }
+
+  if (filters.credits) {
+    filter.credits = filters.credits;
+  } else if (filters.minCredits || filters.maxCredits) {
+    filter.credits = {
+      ...(filters.minCredits ? { $gte: filters.minCredits } : {}),
+      ...(filters.maxCredits ? { $lte: filters.maxCredits } : {})
+    };
+  }
+
+  const range = filters.catalogNbrStart
+    ? catalogNbrRange(filters.catalogNbrStart)
+    : null;
+  if (range) {
+    filter.catalogNbrValue = { $gte: range.min, $lte: range.max };
+  }
+
+  for (const day of parseDays(filters.dayOfWeek || "") ?? []) {
+    if (METADATA_DAYS.includes(day)) {
+      filter[`meets${day}`] = true;
+    }
+  }
+
+  for (const day of parseDays(filters.excludeDays || "") ?? []) {
+    if (METADATA_DAYS.includes(day)) {
+      filter[`meets${day}`] = false;
+    }
+  }
+
+  return filter;
+}
@@ -16,15 +16,62 @@ export interface Course {
 }
 
 /**
- * Represents a single meeting time for a course
+ * Represents a single structured meeting of a course section
  */
 export interface Meeting {
+  days: string[]; // Day codes (e.g., ["M", "W"]); Sunday is "Su"
+  startMinutes: number | null; // Minutes since midnight, null when TBA
+  endMinutes: number | null;
+  location: string | null; // e.g. "Olin Hall 155"
+  startDate: string | null; // ISO date, set for half-semester meetings
+  endDate: string | null;
+  tba: boolean;
+  raw: string; // Original display string (e.g., "MW 10:10AM-11:25AM")
+}
+
+/**
+ * Represents a course with its structured meetings attached
+ */
+export interface CourseWithMeetings extends Course {
+  parsedMeetings: Meeting[];
+}
+
+/**
+ * Represents one course meeting placed on a day of the week
+ */
+export interface DayMeeting {
   days: string; // Day codes (e.g., "MW", "TR")
   time: string; // Time range (e.g., "10:10AM-11:25AM")
+  startMinutes: number | null;
   course: string; // Course label (e.g., "CS 2110")
   title: string; // Course title
+  location: string | null;
 }
 
+/**
+ * Cornell day codes in week order
+ */
+export const DAY_CODES = ["M", "T", "W", "R", "F", "S", "Su"];
+
+export const DAY_NAMES: Record<string, string> = {
+  M: "Monday",
+  T: "Tuesday",
+  W: "Wednesday",
+  R: "Thursday",
+  F: "Friday",
+  S: "Saturday",
+  Su: "Sunday"
+};
+
+/**
+ * Display names for course status codes
+ */
+export const STATUS_LABELS: Record<string, string> = {
+  O: "open",
+  C: "closed",
+  W: "waitlisted"
+};
+
 /**
  * Represents a time conflict between two courses
  */
@@ -44,14 +91,101 @@ export function removeCourseEmbeddings(courses: any[]): any[] {
   });
 }
 
+/**
+ * Mark each course the user has already completed (matched on subject + catalog number)
+ */
+export function flagCompletedCourses<
+  T extends { subject: string; catalog_nbr: string }
+>(courses: T[], completed: Set<string>): (T & { completed: boolean })[] {
+  return courses.map((course) => ({
+    ...course,
+    completed: completed.has(`${course.subject} ${course.catalog_nbr}`)
+  }));
+}
+
+/**
+ * Load the "SUBJ NBR" codes of every course a user has completed
+ */
+export async function getCompletedCourseCodes(
+  env: Env,
+  userId: string
+): Promise<Set<string>> {
+  const result = await env.DB.prepare(
+    "SELECT subject, catalog_nbr FROM user_completed_courses WHERE user_id = ?"
+  )
+    .bind(userId)
+    .all<{ subject: string; catalog_nbr: string }>();
+
+  return new Set(
+    result.results.map((row) => `${row.subject} ${row.catalog_nbr}`)
+  );
+}
+
+/**
+ * Parse a course code like "CS 2110", "cs2110" or "CS-2110" into subject and catalog number
+ * Returns null if the value doesn't look like a course code
+ */
+export function parseCourseCode(
+  code: string
+): { subject: string; catalogNbr: string } | null {
+  const match = code.trim().match(/^([A-Za-z&]+)[\s-]*(\d{4})$/);
+  if (!match) return null;
+
+  return { subject: match[1].toUpperCase(), catalogNbr: match[2] };
+}
+
+/**
+ * Cornell term codes in the order they occur within a calendar year
+ */
+const TERM_SEASONS = ["WI", "SP", "SU", "FA"];
+
+/**
+ * Normalize a term code like "fa26" or "FA 26" to "FA26"
+ * Returns null if the value is not a recognizable term code
+ */
+export function normalizeTerm(term: string): string | null {
+  const match = term
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .match(/^(WI|SP|SU|FA)(\d{2})$/);
+  return match ? `${match[1]}${match[2]}` : null;
+}
+
+/**
+ * Resolve the term a tool should operate on, defaulting to the current term
+ */
+export function resolveTerm(env: Env, term?: string): string {
+  if (term) {
+    const normalized = normalizeTerm(term);
+    if (!normalized) {
+      throw new Error(
+        `Invalid term "${term}". Use a code like FA26 (Fall 2026) or SP27 (Spring 2027).`
+      );
+    }
+    return normalized;
+  }
+
+  return env.CURRENT_TERM;
+}
+
+/**
+ * Sort key that orders term codes chronologically (SP26 < FA26 < SP27)
+ */
+export function termSortKey(term: string): number {
+  const season = TERM_SEASONS.indexOf(term.slice(0, 2));
+  const year = parseInt(term.slice(2), 10);
+  return year * TERM_SEASONS.length + season;
+}
+
 /**
  * Convert time string like "10:10AM" to minutes since midnight
  */
 export function timeToMinutes(timeStr: string): number {
-  const match = timeStr.match(/(\d+):(\d+)(AM|PM)/);
+  const match = timeStr.match(/(\d+):(\d+)\s*(AM|PM)/i);
   if (!match) return 0;
 
-  const [, hoursStr, minutesStr, period] = match;
+  const [, hoursStr, minutesStr, periodStr] = match;
+  const period = periodStr.toUpperCase();
   let hours = parseInt(hoursStr, 10);
   const minutes = parseInt(minutesStr, 10);
 
@@ -67,96 +201,295 @@ export function timeToMinutes(timeStr: string): number {
 }
 
 /**
- * Check if two meeting time strings conflict
- * Example: "MW 10:10AM-11:25AM" vs "TR 02:55PM-04:10PM"
+ * Convert minutes since midnight to Cornell's time format (e.g. 895 → "02:55PM")
  */
-export function meetingsConflict(meeting1: string, meeting2: string): boolean {
-  try {
-    const parts1 = meeting1.split(" ");
-    const parts2 = meeting2.split(" ");
+export function minutesToTime(totalMinutes: number): string {
+  const hours24 = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const period = hours24 >= 12 ? "PM" : "AM";
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
 
-    if (parts1.length < 2 || parts2.length < 2) {
-      return false;
-    }
+  return `${String(hours12).padStart(2, "0")}:${String(minutes).padStart(2, "0")}${period}`;
+}
+
+/**
+ * Split a day pattern like "MWF" or "SSu" into day codes (case-insensitive)
+ * Returns null if the pattern contains anything other than day codes
+ */
+export function parseDays(pattern: string): string[] | null {
+  const normalized = pattern.toUpperCase().replace(/SU/g, "Su");
+  const days = normalized.match(/Su|[MTWRFS]/g);
+  if (!days || days.join("") !== normalized) return null;
+
+  return DAY_CODES.filter((day) => days.includes(day));
+}
 
-    const [days1, time1] = parts1;
-    const [days2, time2] = parts2;
+/**
+ * Encode day codes as a bitmask (M=1, T=2, W=4, ... Su=64) for SQL filtering
+ */
+export function dayMask(days: string[]): number {
+  return days.reduce(
+    (mask, day) =>
+      DAY_CODES.includes(day) ? mask | (1 << DAY_CODES.indexOf(day)) : mask,
+    0
+  );
+}
+
+/**
+ * Convert "08/26/2026" to "2026-08-26"
+ */
+function toIsoDate(date: string): string {
+  const [month, day, year] = date.split("/");
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+/**
+ * Parse a meeting display string into a structured meeting
+ * Examples: "MW 10:10AM-11:25AM", "TR 02:55PM-04:10PM Olin Hall 155",
+ * "F 01:25PM-04:25PM (08/26/2026-10/10/2026)", "TBA"
+ */
+export function parseMeeting(raw: string): Meeting {
+  const meeting: Meeting = {
+    days: [],
+    startMinutes: null,
+    endMinutes: null,
+    location: null,
+    startDate: null,
+    endDate: null,
+    tba: true,
+    raw
+  };
+
+  let rest = raw.trim();
+
+  const dateRange = rest.match(
+    /\(?\s*(\d{1,2}\/\d{1,2}\/\d{4})\s*-\s*(\d{1,2}\/\d{1,2}\/\d{4})\s*\)?/
+  );
+  if (dateRange) {
+    meeting.startDate = toIsoDate(dateRange[1]);
+    meeting.endDate = toIsoDate(dateRange[2]);
+    rest = rest.replace(dateRange[0], " ").trim();
+  }
 
-    // Check if days overlap
-    const daysOverlap = days1.split("").some((day) => days2.includes(day));
-    if (!daysOverlap) {
-      return false;
+  const match = rest.match(
+    /^(\S+)\s+(\d{1,2}:\d{2}\s*[AP]M)\s*-\s*(\d{1,2}:\d{2}\s*[AP]M)(.*)$/i
+  );
+  const days = match ? parseDays(match[1]) : null;
+
+  if (match && days) {
+    meeting.days = days;
+    meeting.startMinutes = timeToMinutes(match[2]);
+    meeting.endMinutes = timeToMinutes(match[3]);
+    meeting.tba = false;
+    rest = match[4];
+  } else {
+    // TBA meetings may still name days (e.g. "MW TBA")
+    const firstToken = rest.split(/\s+/)[0];
+    const tbaDays = parseDays(firstToken);
+    if (tbaDays) {
+      meeting.days = tbaDays;
+      rest = rest.slice(firstToken.length);
     }
+  }
 
-    // Parse time ranges
-    const [start1, end1] = time1.split("-");
-    const [start2, end2] = time2.split("-");
+  const location = rest.replace(/\bTBA\b/i, "").trim();
+  meeting.location = location.length > 0 ? location : null;
 
-    const start1Min = timeToMinutes(start1);
-    const end1Min = timeToMinutes(end1);
-    const start2Min = timeToMinutes(start2);
-    const end2Min = timeToMinutes(end2);
+  return meeting;
+}
 
-    // Check if time ranges overlap
-    return start1Min < end2Min && start2Min < end1Min;
-  } catch (error) {
-    console.error("Error checking meeting conflict:", error);
-    return false;
+/**
+ * Parse a course's meetings JSON column into structured meetings
+ */
+export function parseMeetingStrings(meetingsJson: string | null): Meeting[] {
+  const meetings = meetingsJson ? (JSON.parse(meetingsJson) as string[]) : [];
+  return meetings.map(parseMeeting);
+}
+
+/**
+ * Format a meeting's days and time (e.g. "MW 10:10AM-11:25AM")
+ */
+export function formatMeetingTime(meeting: Meeting): string {
+  if (
+    meeting.tba ||
+    meeting.startMinutes === null ||
+    meeting.endMinutes === null
+  ) {
+    return meeting.days.length > 0 ? `${meeting.days.join("")} TBA` : "TBA";
   }
+
+  return `${meeting.days.join("")} ${minutesToTime(meeting.startMinutes)}-${minutesToTime(meeting.endMinutes)}`;
 }
 
 /**
- * Parse meetings from a course and organize by day of week
+ * Check if two structured meetings conflict
+ * TBA meetings never conflict; meetings in disjoint date ranges (e.g. first
+ * and second half-semester) don't conflict even on the same day and time
  */
-export function parseMeetingsByDay(course: Course): Map<string, Meeting[]> {
-  const dayMap = new Map<string, Meeting[]>([
-    ["Monday", []],
-    ["Tuesday", []],
-    ["Wednesday", []],
-    ["Thursday", []],
-    ["Friday", []]
-  ]);
+export function meetingsConflict(
+  meeting1: Meeting,
+  meeting2: Meeting
+): boolean {
+  if (
+    meeting1.tba ||
+    meeting2.tba ||
+    meeting1.startMinutes === null ||
+    meeting1.endMinutes === null ||
+    meeting2.startMinutes === null ||
+    meeting2.endMinutes === null
+  ) {
+    return false;
+  }
 
-  const dayCodeToName: Record<string, string> = {
-    M: "Monday",
-    T: "Tuesday",
-    W: "Wednesday",
-    R: "Thursday",
-    F: "Friday"
-  };
+  // Check if days overlap
+  const daysOverlap = meeting1.days.some((day) => meeting2.days.includes(day));
+  if (!daysOverlap) {
+    return false;
+  }
 
-  const meetings = JSON.parse(course.meetings) as string[];
-  const courseLabel = `${course.subject} ${course.catalog_nbr}`;
+  // Check if date ranges overlap (ISO dates compare as strings)
+  if (
+    meeting1.startDate &&
+    meeting1.endDate &&
+    meeting2.startDate &&
+    meeting2.endDate &&
+    (meeting1.endDate < meeting2.startDate ||
+      meeting2.endDate < meeting1.startDate)
+  ) {
+    return false;
+  }
+
+  // Check if time ranges overlap
+  return (
+    meeting1.startMinutes < meeting2.endMinutes &&
+    meeting2.startMinutes < meeting1.endMinutes
+  );
+}
+
+/**
+ * Courses looked up per course_meetings query; each binds two parameters,
+ * keeping queries within D1's 100 bound parameters
+ */
+const MEETINGS_CHUNK_SIZE = 49;
+
+interface CourseMeetingRow {
+  term: string;
+  course_id: string;
+  days: string;
+  start_min: number | null;
+  end_min: number | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  tba: number;
+  raw: string;
+}
+
+/**
+ * Attach structured meetings from the course_meetings table to course rows
+ * Rows ingested before course_meetings existed fall back to parsing the meetings column
+ */
+export async function attachMeetings<T extends Course>(
+  env: Env,
+  courses: T[]
+): Promise<(T & CourseWithMeetings)[]> {
+  const meetingsByCourse = new Map<string, Meeting[]>();
+
+  if (courses.length > 0) {
+    const statements = [];
+    for (let i = 0; i < courses.length; i += MEETINGS_CHUNK_SIZE) {
+      const chunk = courses.slice(i, i + MEETINGS_CHUNK_SIZE);
+      const keys = chunk.map(() => "(term = ? AND course_id = ?)").join(" OR ");
+      statements.push(
+        env.DB.prepare(
+          `SELECT * FROM course_meetings WHERE ${keys} ORDER BY course_id, id`
+        ).bind(...chunk.flatMap((course) => [course.term, course.id]))
+      );
+    }
+    const rows = (await env.DB.batch<CourseMeetingRow>(statements)).flatMap(
+      (result) => result.results
+    );
+
+    for (const row of rows) {
+      const key = `${row.term}:${row.course_id}`;
+      const meetings = meetingsByCourse.get(key) || [];
+      meetings.push({
+        days: parseDays(row.days) ?? [],
+        startMinutes: row.start_min,
+        endMinutes: row.end_min,
+        location: row.location,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        tba: row.tba === 1,
+        raw: row.raw
+      });
+      meetingsByCourse.set(key, meetings);
+    }
+  }
 
-  for (const meeting of meetings) {
-    const parts = meeting.split(" ");
-    if (parts.length < 2) continue;
+  return courses.map((course) => ({
+    ...course,
+    parsedMeetings:
+      meetingsByCourse.get(`${course.term}:${course.id}`) ??
+      parseMeetingStrings(course.meetings)
+  }));
+}
 
-    const [days, time] = parts;
+/**
+ * Organize the meetings of a set of courses by day of week
+ * Weekend days are only included when something meets on them; TBA meetings are grouped last
+ */
+export function parseMeetingsByDay(
+  courses: CourseWithMeetings[]
+): Map<string, DayMeeting[]> {
+  const dayMap = new Map<string, DayMeeting[]>(
+    DAY_CODES.slice(0, 5).map((day) => [DAY_NAMES[day], []])
+  );
+  const tba: DayMeeting[] = [];
+
+  for (const course of courses) {
+    const courseLabel = `${course.subject} ${course.catalog_nbr}`;
+
+    for (const meeting of course.parsedMeetings) {
+      const entry: DayMeeting = {
+        days: meeting.days.join(""),
+        time: formatMeetingTime(meeting).replace(/^\S+\s+/, ""),
+        startMinutes: meeting.startMinutes,
+        course: courseLabel,
+        title: course.title,
+        location: meeting.location
+      };
+
+      if (meeting.tba) {
+        tba.push(entry);
+        continue;
+      }
 
-    // Add to each day this course meets
-    for (const dayCode of days.split("")) {
-      const dayName = dayCodeToName[dayCode];
-      if (dayName) {
+      // Add to each day this course meets
+      for (const dayCode of meeting.days) {
+        const dayName = DAY_NAMES[dayCode];
         const dayMeetings = dayMap.get(dayName) || [];
-        dayMeetings.push({
-          days,
-          time,
-          course: courseLabel,
-          title: course.title
-        });
+        dayMeetings.push(entry);
         dayMap.set(dayName, dayMeetings);
       }
     }
   }
 
+  for (const meetings of dayMap.values()) {
+    meetings.sort((a, b) => (a.startMinutes ?? 0) - (b.startMinutes ?? 0));
+  }
+
+  if (tba.length > 0) {
+    dayMap.set("Time TBA", tba);
+  }
+
   return dayMap;
 }
 
 /**
  * Find all time conflicts between courses
  */
-export function findConflicts(courses: Course[]): Conflict[] {
+export function findConflicts(courses: CourseWithMeetings[]): Conflict[] {
   const conflicts: Conflict[] = [];
 
   // Compare each pair of courses
@@ -165,17 +498,14 @@ export function findConflicts(courses: Course[]): Conflict[] {
       const course1 = courses[i];
       const course2 = courses[j];
 
-      const meetings1 = JSON.parse(course1.meetings) as string[];
-      const meetings2 = JSON.parse(course2.meetings) as string[];
-
       // Check each meeting combination
-      for (const meeting1 of meetings1) {
-        for (const meeting2 of meetings2) {
+      for (const meeting1 of course1.parsedMeetings) {
+        for (const meeting2 of course2.parsedMeetings) {
           if (meetingsConflict(meeting1, meeting2)) {
             conflicts.push({
               course1: `${course1.subject} ${course1.catalog_nbr}: ${course1.title}`,
               course2: `${course2.subject} ${course2.catalog_nbr}: ${course2.title}`,
-              reason: `${meeting1} conflicts with ${meeting2}`
+              reason: `${meeting1.raw} conflicts with ${meeting2.raw}`
             });
           }
         }
@@ -190,10 +520,11 @@ export function findConflicts(courses: Course[]): Conflict[] {
  * Format a text schedule summary from courses organized by day
  */
 export function formatTextSchedule(
-  dayMap: Map<string, Meeting[]>,
-  totalCourses: number
+  dayMap: Map<string, DayMeeting[]>,
+  totalCourses: number,
+  term: string
 ): string {
-  let schedule = `📅 Your Weekly Schedule (${totalCourses} courses)\n\n`;
+  let schedule = `📅 Your ${term} Weekly Schedule (${totalCourses} courses)\n\n`;
 
   for (const [day, meetings] of dayMap.entries()) {
     schedule += `**${day}:**\n`;
@@ -202,7 +533,8 @@ export function formatTextSchedule(
       schedule += `  No classes\n`;
     } else {
       for (const meeting of meetings) {
-        schedule += `  ${meeting.time} - ${meeting.course}: ${meeting.title}\n`;
+        const location = meeting.location ? ` (${meeting.location})` : "";
+        schedule += `  ${meeting.time} - ${meeting.course}: ${meeting.title}${location}\n`;
       }
     }
 
@@ -0,0 +1,380 @@
+/**
+ * Degree requirements
+ * Declarative major and minor definitions, and evaluation of a student's
+ * completed and scheduled courses against them
+ */
+
+import { z } from "zod/v3";
+import { parseCourseCode } from "./course-helpers";
+
+/**
+ * Course code normalized to "SUBJ 1234"
+ */
+const courseCodeSchema = z.string().transform((code, ctx) => {
+  const parsed = parseCourseCode(code);
+  if (!parsed) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `"${code}" is not a course code like "CS 2110"`
+    });
+    return z.NEVER;
+  }
+  return `${parsed.subject} ${parsed.catalogNbr}`;
+});
+
+const requirementSchema = z.discriminatedUnion("type", [
+  // Every listed course; an array entry is a set of alternatives ("CS 2110 or CS 2112")
+  z.object({
+    type: z.literal("all"),
+    id: z.string().min(1),
+    name: z.string().min(1),
+    courses: z
+      .array(z.union([courseCodeSchema, z.array(courseCodeSchema).min(2)]))
+      .min(1)
+  }),
+  // Any `count` of the listed courses
+  z.object({
+    type: z.literal("choose"),
+    id: z.string().min(1),
+    name: z.string().min(1),
+    count: z.number().int().min(1),
+    courses: z.array(courseCodeSchema).min(1)
+  }),
+  // `count` courses matching every given filter, e.g. 3 CS courses numbered 4000+
+  z.object({
+    type: z.literal("distribution"),
+    id: z.string().min(1),
+    name: z.string().min(1),
+    count: z.number().int().min(1),
+    subjects: z.array(z.string().toUpperCase()).optional(),
+    attributes: z.array(z.string()).optional(), // Any of these tags, e.g. "MQR-AS"
+    minCatalogNbr: z.number().int().optional(),
+    exclude: z.array(courseCodeSchema).optional()
+  })
+]);
+
+export const degreeProgramSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, "Use a lowercase slug like cs-major")
+    .max(64),
+  name: z.string().min(1).max(200),
+  type: z.enum(["major", "minor"]),
+  requirements: z.array(requirementSchema).min(1).max(100)
+});
+
+export const degreeProgramsPayloadSchema = z.object({
+  programs: z.array(degreeProgramSchema).min(1).max(50)
+});
+
+export type Requirement = z.infer<typeof requirementSchema>;
+export type DegreeProgram = z.infer<typeof degreeProgramSchema>;
+
+/**
+ * A completed or scheduled course counted toward requirements
+ */
+export interface TakenCourse {
+  code: string; // e.g. "CS 2110"
+  status: "completed" | "scheduled";
+  term: string | null;
+  attributes: string[];
+}
+
+export interface RequirementProgress {
+  id: string;
+  name: string;
+  type: Requirement["type"];
+  needed: number; // Courses the requirement takes
+  satisfiedBy: { code: string; status: TakenCourse["status"] }[];
+  remaining: number;
+  satisfied: boolean; // Met by completed courses alone
+  plannedSatisfied: boolean; // Met once scheduled courses are completed
+  options: string[]; // Listed courses that would still count, e.g. "CS 2110 or CS 2112"
+}
+
+function catalogNumber(code: string): number {
+  return Number(code.split(" ")[1]);
+}
+
+function matchesDistribution(
+  requirement: Extract<Requirement, { type: "distribution" }>,
+  course: TakenCourse
+): boolean {
+  const subject = course.code.split(" ")[0];
+  if (requirement.subjects && !requirement.subjects.includes(subject)) {
+    return false;
+  }
+  if (
+    requirement.minCatalogNbr !== undefined &&
+    catalogNumber(course.code) < requirement.minCatalogNbr
+  ) {
+    return false;
+  }
+  if (
+    requirement.attributes &&
+    !requirement.attributes.some((tag) => course.attributes.includes(tag))
+  ) {
+    return false;
+  }
+  return !requirement.exclude?.includes(course.code);
+}
+
+/**
+ * Evaluate a program's requirements in order
+ * Each course counts toward one requirement only, and completed courses are
+ * used before scheduled ones
+ */
+export function evaluateDegreeProgress(
+  program: DegreeProgram,
+  taken: TakenCourse[]
+): RequirementProgress[] {
+  const available = [...taken].sort(
+    (a, b) =>
+      Number(a.status === "scheduled") - Number(b.status === "scheduled")
+  );
+  const used = new Set<string>();
+
+  // Take the first unused course matching the predicate
+  const claim = (matches: (course: TakenCourse) => boolean) => {
+    const course = available.find(
+      (candidate) => !used.has(candidate.code) && matches(candidate)
+    );
+    if (course) used.add(course.code);
+    return course;
+  };
+
+  return program.requirements.map((requirement) => {
+    const satisfiedBy: TakenCourse[] = [];
+    let needed: number;
+    let options: string[] = [];
+
+    if (requirement.type === "all") {
+      needed = requirement.courses.length;
+      for (const entry of requirement.courses) {
+        const alternatives = Array.isArray(entry) ? entry : [entry];
+        const course = claim((c) => alternatives.includes(c.code));
+        if (course) satisfiedBy.push(course);
+        else options.push(alternatives.join(" or "));
+      }
+    } else if (requirement.type === "choose") {
+      needed = requirement.count;
+      while (satisfiedBy.length < needed) {
+        const course = claim((c) => requirement.courses.includes(c.code));
+        if (!course) break;
+        satisfiedBy.push(course);
+      }
+      options = requirement.courses.filter((code) => !used.has(code));
+    } else {
+      needed = requirement.count;
+      while (satisfiedBy.length < needed) {
+        const course = claim((c) => matchesDistribution(requirement, c));
+        if (!course) break;
+        satisfiedBy.push(course);
+      }
+    }
+
+    const completed = satisfiedBy.filter((c) => c.status === "completed");
+    const remaining = needed - satisfiedBy.length;
+
+    return {
+      id: requirement.id,
+      name: requirement.name,
+      type: requirement.type,
+      needed,
+      satisfiedBy: satisfiedBy.map(({ code, status }) => ({ code, status })),
+      remaining,
+      satisfied: completed.length >= needed,
+      plannedSatisfied: remaining === 0,
+      options: remaining > 0 ? options : []
+    };
+  });
+}
+
+/**
+ * Store program definitions, replacing any with the same ID
+ */
+export async function saveDegreePrograms(
+  env: Env,
+  programs: DegreeProgram[]
+): Promise<void> {
+  await env.DB.batch(
+    programs.map((program) =>
+      env.DB.prepare(
+        `INSERT INTO degree_programs (id, name, type, definition)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           type = excluded.type,
+           definition = excluded.definition,
+           updated_at = CURRENT_TIMESTAMP`
+      ).bind(program.id, program.name, program.type, JSON.stringify(program))
+    )
+  );
+}
+
+/**
+ * Find a program by ID or name (case-insensitive, partial names allowed)
+ */
+export async function findDegreeProgram(
+  env: Env,
+  query: string
+): Promise<DegreeProgram | null> {
+  const row = await env.DB.prepare(
+    `SELECT definition FROM degree_programs
+     WHERE id = ? OR name LIKE ?
+     ORDER BY id = ? DESC, length(name)
+     LIMIT 1`
+  )
+    .bind(query.toLowerCase(), `%${query}%`, query.toLowerCase())
+    .first<{ definition: string }>();
+
+  return row ? (JSON.parse(row.definition) as DegreeProgram) : null;
+}
+
+/**
+ * List stored programs
+ */
+export async function listDegreePrograms(
+  env: Env
+): Promise<{ id: string; name: string; type: string }[]> {
+  const result = await env.DB.prepare(
+    "SELECT id, name, type FROM degree_programs ORDER BY type, name"
+  ).all<{ id: string; name: string; type: string }>();
+
+  return result.results;
+}
+
+/**
+ * Load a student's completed and scheduled courses with their attribute tags
+ * Completed courses take their tags from the most recent offering in the catalog
+ */
+export async function loadTakenCourses(
+  env: Env,
+  userId: string
+): Promise<TakenCourse[]> {
+  const [completed, scheduled] = await env.DB.batch<{
+    code: string;
+    term: string | null;
+    attributes: string | null;
+  }>([
+    env.DB.prepare(
+      `SELECT ucc.subject || ' ' || ucc.catalog_nbr AS code, ucc.term,
+              (SELECT c.attributes FROM courses c
+               WHERE c.subject = ucc.subject AND c.catalog_nbr = ucc.catalog_nbr
+               ORDER BY c.updated_at DESC LIMIT 1) AS attributes
+       FROM user_completed_courses ucc
+       WHERE ucc.user_id = ?`
+    ).bind(userId),
+    env.DB.prepare(
+      `SELECT DISTINCT c.subject || ' ' || c.catalog_nbr AS code, c.term, c.attributes
+       FROM user_schedules us
+       JOIN courses c ON c.id = us.course_id AND c.term = us.term
+       WHERE us.user_id = ?`
+    ).bind(userId)
+  ]);
+
+  const toTaken =
+    (status: TakenCourse["status"]) =>
+    (row: {
+      code: string;
+      term: string | null;
+      attributes: string | null;
+    }) => ({
+      code: row.code,
+      status,
+      term: row.term,
+      attributes: row.attributes ? (JSON.parse(row.attributes) as string[]) : []
+    });
+
+  return [
+    ...completed.results.map(toTaken("completed")),
+    ...scheduled.results.map(toTaken("scheduled"))
+  ];
+}
+
+/**
+ * Listed course codes matched per query, keeping each within D1's 100 bound parameters
+ */
+const CODE_CHUNK_SIZE = 90;
+
+interface CandidateCourse {
+  id: string;
+  code: string;
+  title: string;
+  credits: number | null;
+  status: string | null;
+}
+
+/**
+ * Courses offered in a term that would count toward an unmet requirement
+ * Taken and excluded courses are filtered out after the query, which fetches
+ * enough extra rows to make up for them, so a long transcript binds no parameters
+ */
+export async function findRequirementCandidates(
+  env: Env,
+  term: string,
+  requirement: Requirement,
+  progress: RequirementProgress,
+  taken: TakenCourse[],
+  limit = 5
+): Promise<CandidateCourse[]> {
+  const excluded = new Set([
+    ...taken.map((course) => course.code),
+    ...(requirement.type === "distribution" ? (requirement.exclude ?? []) : [])
+  ]);
+  const select = (conditions: string[], params: (string | number)[]) =>
+    env.DB.prepare(
+      `SELECT id, subject || ' ' || catalog_nbr AS code, title, credits, status
+       FROM courses
+       WHERE ${["term = ?", "component IN ('LEC', 'SEM')", ...conditions].join(" AND ")}
+       GROUP BY subject, catalog_nbr
+       ORDER BY subject, catalog_nbr
+       LIMIT ?`
+    ).bind(term, ...params, limit + excluded.size);
+
+  const statements = [];
+  if (requirement.type === "distribution") {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (requirement.subjects) {
+      conditions.push(
+        `subject IN (${requirement.subjects.map(() => "?").join(",")})`
+      );
+      params.push(...requirement.subjects);
+    }
+    if (requirement.minCatalogNbr !== undefined) {
+      conditions.push("CAST(catalog_nbr AS INTEGER) >= ?");
+      params.push(requirement.minCatalogNbr);
+    }
+    if (requirement.attributes) {
+      conditions.push(
+        `(${requirement.attributes.map(() => "attributes LIKE ?").join(" OR ")})`
+      );
+      params.push(...requirement.attributes.map((tag) => `%"${tag}"%`));
+    }
+    statements.push(select(conditions, params));
+  } else {
+    const codes = [
+      ...new Set(progress.options.flatMap((option) => option.split(" or ")))
+    ].filter((code) => !excluded.has(code));
+    for (let i = 0; i < codes.length; i += CODE_CHUNK_SIZE) {
+      const chunk = codes.slice(i, i + CODE_CHUNK_SIZE);
+      statements.push(
+        select(
+          [
+            `subject || ' ' || catalog_nbr IN (${chunk.map(() => "?").join(",")})`
+          ],
+          chunk
+        )
+      );
+    }
+  }
+  if (statements.length === 0) return [];
+
+  const results = await env.DB.batch<CandidateCourse>(statements);
+  return results
+    .flatMap((result) => result.results)
+    .filter((course) => !excluded.has(course.code))
+    .sort((a, b) => (a.code < b.code ? -1 : a.code > b.code ? 1 : 0))
+    .slice(0, limit);
+}
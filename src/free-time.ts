@@ -0,0 +1,218 @@
+/**
+ * Free time in a student's week
+ * Free windows are the parts of each day, between a start and end time, not
+ * taken by a scheduled meeting. A section fits when every timed meeting lies
+ * inside a free window on each of its days.
+ */
+
+import {
+  attachMeetings,
+  DAY_CODES,
+  minutesToTime,
+  type Course,
+  type CourseWithMeetings,
+  type Meeting
+} from "./course-helpers";
+import {
+  requiredComponents,
+  sectionLabel,
+  sectionOptions,
+  type SectionInfo
+} from "./course-components";
+
+/**
+ * Lectures whose other sections are loaded per query, keeping each lookup
+ * within D1's 100 bound parameters
+ */
+const SIBLING_CHUNK_SIZE = 25;
+
+/**
+ * A free stretch of one day, in minutes since midnight
+ */
+export interface FreeWindow {
+  day: string;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+/**
+ * Free windows on the given days between dayStart and dayEnd, around the
+ * timed meetings of the scheduled sections
+ */
+export function computeFreeWindows(
+  scheduled: CourseWithMeetings[],
+  days: string[],
+  dayStart: number,
+  dayEnd: number
+): FreeWindow[] {
+  const meetings = scheduled
+    .flatMap((course) => course.parsedMeetings)
+    .filter(
+      (meeting) =>
+        !meeting.tba &&
+        meeting.startMinutes !== null &&
+        meeting.endMinutes !== null
+    );
+  const windows: FreeWindow[] = [];
+
+  for (const day of DAY_CODES.filter((code) => days.includes(code))) {
+    const busy = meetings
+      .filter((meeting) => meeting.days.includes(day))
+      .sort((a, b) => a.startMinutes! - b.startMinutes!);
+
+    let start = dayStart;
+    for (const meeting of busy) {
+      if (meeting.startMinutes! > start) {
+        windows.push({
+          day,
+          startMinutes: start,
+          endMinutes: Math.min(meeting.startMinutes!, dayEnd)
+        });
+      }
+      start = Math.max(start, meeting.endMinutes!);
+      if (start >= dayEnd) break;
+    }
+    if (start < dayEnd) {
+      windows.push({ day, startMinutes: start, endMinutes: dayEnd });
+    }
+  }
+
+  return windows.filter((window) => window.endMinutes > window.startMinutes);
+}
+
+/**
+ * Whether every timed meeting falls inside a free window on each of its days
+ * Sections with only TBA meetings don't fit, since their times are unknown
+ */
+export function fitsFreeWindows(
+  meetings: Meeting[],
+  windows: FreeWindow[]
+): boolean {
+  const timed = meetings.filter(
+    (meeting) =>
+      !meeting.tba &&
+      meeting.startMinutes !== null &&
+      meeting.endMinutes !== null
+  );
+
+  return (
+    timed.length > 0 &&
+    timed.every((meeting) =>
+      meeting.days.every((day) =>
+        windows.some(
+          (window) =>
+            window.day === day &&
+            window.startMinutes <= meeting.startMinutes! &&
+            meeting.endMinutes! <= window.endMinutes
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Describe free windows, e.g. "T 12:00PM-02:55PM"
+ */
+export function formatFreeWindows(windows: FreeWindow[]): string[] {
+  return windows.map(
+    (window) =>
+      `${window.day} ${minutesToTime(window.startMinutes)}-${minutesToTime(window.endMinutes)}`
+  );
+}
+
+export interface FreeTimeMatch<T> {
+  section: T;
+  otherSections: Record<
+    string,
+    { courseId: string; section: string; meetings: string[] }[]
+  >;
+}
+
+/**
+ * Keep lectures whose other required components (DIS, LAB) each have a linked
+ * section that fits around both the schedule and the lecture, up to limit
+ * Other sections are loaded a chunk of lectures at a time, stopping once
+ * enough courses are found
+ */
+export async function completeFreeTimeCourses<
+  T extends CourseWithMeetings & SectionInfo
+>(
+  env: Env,
+  term: string,
+  lectures: T[],
+  scheduled: CourseWithMeetings[],
+  days: string[],
+  dayStart: number,
+  dayEnd: number,
+  limit: number
+): Promise<FreeTimeMatch<T>[]> {
+  const matches: FreeTimeMatch<T>[] = [];
+
+  for (
+    let i = 0;
+    i < lectures.length && matches.length < limit;
+    i += SIBLING_CHUNK_SIZE
+  ) {
+    const chunk = lectures.slice(i, i + SIBLING_CHUNK_SIZE);
+    const codes = [
+      ...new Set(chunk.map((s) => `${s.subject} ${s.catalog_nbr}`))
+    ];
+    const siblings = await attachMeetings(
+      env,
+      (
+        await env.DB.prepare(
+          `SELECT * FROM courses
+           WHERE term = ? AND component NOT IN ('LEC', 'SEM')
+           AND subject || ' ' || catalog_nbr IN (${codes.map(() => "?").join(",")})
+           ORDER BY section`
+        )
+          .bind(term, ...codes)
+          .all<Course & SectionInfo>()
+      ).results
+    );
+
+    for (const section of chunk) {
+      if (matches.length >= limit) break;
+
+      const courseSections = [
+        section,
+        ...siblings.filter(
+          (s) =>
+            s.subject === section.subject &&
+            s.catalog_nbr === section.catalog_nbr
+        )
+      ];
+      // Other components must also avoid the lecture itself
+      const remaining = computeFreeWindows(
+        [...scheduled, section],
+        days,
+        dayStart,
+        dayEnd
+      );
+
+      const otherSections: FreeTimeMatch<T>["otherSections"] = {};
+      const complete = requiredComponents(courseSections, [section])
+        .filter((component) => component !== section.component)
+        .every((component) => {
+          otherSections[component] = sectionOptions(
+            courseSections,
+            [section],
+            component
+          )
+            .filter((option) =>
+              fitsFreeWindows(option.parsedMeetings, remaining)
+            )
+            .map((option) => ({
+              courseId: option.id,
+              section: sectionLabel(option),
+              meetings: option.parsedMeetings.map((m) => m.raw)
+            }));
+          return otherSections[component].length > 0;
+        });
+
+      if (complete) matches.push({ section, otherSections });
+    }
+  }
+
+  return matches;
+}
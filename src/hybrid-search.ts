@@ -0,0 +1,230 @@
+/**
+ * Hybrid course retrieval
+ * Combines D1 full-text search with Vectorize similarity using reciprocal rank fusion,
+ * short-circuiting to exact matches when the query names a course code
+ */
+
+import {
+  type CourseFilters,
+  buildSqlFilters,
+  buildVectorizeFilter
+} from "./course-filters";
+
+/**
+ * Candidates pulled from each retriever before fusion
+ * (Vectorize caps topK at 20 when returning metadata)
+ */
+const CANDIDATES_PER_RETRIEVER = 20;
+
+/**
+ * Standard RRF damping constant; larger values flatten the contribution of top ranks
+ */
+const RRF_K = 60;
+
+/**
+ * Words that carry no meaning for keyword matching against course text
+ */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "about",
+  "any",
+  "are",
+  "class",
+  "classes",
+  "course",
+  "courses",
+  "find",
+  "for",
+  "in",
+  "is",
+  "me",
+  "of",
+  "on",
+  "or",
+  "show",
+  "the",
+  "to",
+  "what",
+  "with"
+]);
+
+/**
+ * Course codes: an uppercase subject ("CS 4780", "CS-4780"), or any case when
+ * written without a space ("cs4780"), so phrases like "fall 2026" don't match
+ */
+const COURSE_CODE_PATTERN =
+  /\b(?:([A-Z]{2,5})\s*-?\s*|([A-Za-z]{2,5})-?)(\d{4})\b/g;
+
+/**
+ * Result of a hybrid search, in ranked order
+ */
+export interface HybridSearchResult {
+  mode: "exact" | "hybrid";
+  courseIds: string[];
+}
+
+/**
+ * Find course codes like "CS 4780" or "cs4780" mentioned in a query
+ */
+export function extractCourseCodes(
+  query: string
+): { subject: string; catalogNbr: string }[] {
+  return Array.from(query.matchAll(COURSE_CODE_PATTERN)).map((match) => ({
+    subject: (match[1] ?? match[2]).toUpperCase(),
+    catalogNbr: match[3]
+  }));
+}
+
+/**
+ * Turn a free-text query into an FTS5 MATCH expression
+ * Each remaining word is quoted so user input can't inject FTS5 syntax
+ */
+export function buildFtsQuery(query: string): string | null {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+
+  if (words.length === 0) return null;
+  return words.map((word) => `"${word}"`).join(" OR ");
+}
+
+/**
+ * Merge ranked ID lists, scoring each ID by the sum of 1 / (k + rank) across lists
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = RRF_K
+): string[] {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, idx) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + idx + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+}
+
+/**
+ * Look up the primary sections of courses named explicitly in the query
+ */
+async function exactSearch(
+  env: Env,
+  codes: { subject: string; catalogNbr: string }[],
+  term: string,
+  filters: CourseFilters
+): Promise<string[]> {
+  const codeConditions = codes
+    .map(() => "(subject = ? AND catalog_nbr = ?)")
+    .join(" OR ");
+  const { conditions, params } = buildSqlFilters(filters);
+  conditions.unshift(
+    "term = ?",
+    "component NOT IN ('DIS', 'LAB')",
+    `(${codeConditions})`
+  );
+
+  const result = await env.DB.prepare(
+    `SELECT id FROM courses
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY subject, catalog_nbr, section`
+  )
+    .bind(
+      term,
+      ...codes.flatMap((code) => [code.subject, code.catalogNbr]),
+      ...params
+    )
+    .all<{ id: string }>();
+
+  return result.results.map((row) => row.id);
+}
+
+/**
+ * Rank courses by BM25 over title, description and instructors
+ */
+async function keywordSearch(
+  env: Env,
+  query: string,
+  term: string,
+  filters: CourseFilters
+): Promise<string[]> {
+  const ftsQuery = buildFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const { conditions, params } = buildSqlFilters(filters, "c");
+  conditions.unshift("courses_fts MATCH ?", "courses_fts.term = ?");
+
+  const result = await env.DB.prepare(
+    `SELECT courses_fts.course_id FROM courses_fts
+     JOIN courses c ON c.term = courses_fts.term AND c.id = courses_fts.course_id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY bm25(courses_fts)
+     LIMIT ?`
+  )
+    .bind(ftsQuery, term, ...params, CANDIDATES_PER_RETRIEVER)
+    .all<{ course_id: string }>();
+
+  return result.results.map((row) => row.course_id);
+}
+
+/**
+ * Rank courses by embedding similarity in Vectorize
+ */
+async function semanticSearch(
+  env: Env,
+  query: string,
+  term: string,
+  filters: CourseFilters
+): Promise<string[]> {
+  const response = (await env.AI.run("@cf/baai/bge-base-en-v1.5", {
+    text: [query]
+  })) as { data: number[][] };
+
+  const results = await env.VECTORIZE.query(response.data[0], {
+    topK: CANDIDATES_PER_RETRIEVER,
+    returnMetadata: true,
+    filter: buildVectorizeFilter(term, filters)
+  });
+
+  // Course ID is stored in the vector metadata (vector ID format: "course-FA26-AAS-2130-204-9713")
+  return results.matches.map((match) => match.metadata?.courseId as string);
+}
+
+/**
+ * Search courses in a term matching the filters, returning course IDs in ranked order
+ */
+export async function hybridSearch(
+  env: Env,
+  query: string,
+  term: string,
+  limit: number,
+  filters: CourseFilters = {}
+): Promise<HybridSearchResult> {
+  const codes = extractCourseCodes(query);
+  if (codes.length > 0) {
+    const exact = await exactSearch(env, codes, term, filters);
+    if (exact.length > 0) {
+      return { mode: "exact", courseIds: exact.slice(0, limit) };
+    }
+  }
+
+  const [keyword, semantic] = await Promise.all([
+    keywordSearch(env, query, term, filters),
+    semanticSearch(env, query, term, filters)
+  ]);
+
+  console.log(
+    `[hybridSearch] ${keyword.length} keyword and ${semantic.length} semantic candidates`
+  );
+
+  return {
+    mode: "hybrid",
+    courseIds: reciprocalRankFusion([keyword, semantic]).slice(0, limit)
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * iCalendar (.ics) export
+ * Turns a user's schedule into RFC 5545 recurring events for Google/Apple Calendar
+ */
+
+import {
+  type Course,
+  type CourseWithMeetings,
+  type Meeting,
+  attachMeetings
+} from "./course-helpers";
+import {
+  type AcademicTerm,
+  CAMPUS_TIME_ZONE,
+  isBreakDay
+} from "./academic-calendar";
+
+/**
+ * iCalendar weekday codes for Cornell day codes
+ */
+const ICAL_DAYS: Record<string, string> = {
+  M: "MO",
+  T: "TU",
+  W: "WE",
+  R: "TH",
+  F: "FR",
+  S: "SA",
+  Su: "SU"
+};
+
+/**
+ * Cornell day codes indexed by Date.getUTCDay()
+ */
+const WEEKDAY_CODES = ["Su", "M", "T", "W", "R", "F", "S"];
+
+/**
+ * VTIMEZONE definition for campus time, required for TZID-qualified times
+ */
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${CAMPUS_TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "TZNAME:EDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0400",
+  "TZOFFSETTO:-0500",
+  "TZNAME:EST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE"
+];
+
+export interface ScheduleExport {
+  ics: string;
+  eventCount: number;
+  skipped: string[]; // Meetings left out because they have no fixed time
+}
+
+/**
+ * Add days to an ISO date
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Cornell day code for an ISO date
+ */
+function dayCodeOf(date: string): string {
+  return WEEKDAY_CODES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Format an ISO date and minutes since midnight as an iCalendar local time
+ */
+function formatLocalDateTime(date: string, minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mins = String(minutes % 60).padStart(2, "0");
+  return `${date.replace(/-/g, "")}T${hours}${mins}00`;
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Build the VEVENT lines for one recurring meeting
+ * Returns null when the meeting never occurs inside the term
+ */
+function meetingToEvent(
+  course: CourseWithMeetings,
+  meeting: Meeting,
+  index: number,
+  calendar: AcademicTerm,
+  stamp: string
+): string[] | null {
+  const startDate =
+    meeting.startDate && meeting.startDate > calendar.startDate
+      ? meeting.startDate
+      : calendar.startDate;
+  const endDate =
+    meeting.endDate && meeting.endDate < calendar.endDate
+      ? meeting.endDate
+      : calendar.endDate;
+
+  // Every class date the weekly rule produces, so breaks can be excluded
+  const occurrences: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (meeting.days.includes(dayCodeOf(date))) {
+      occurrences.push(date);
+    }
+  }
+
+  // DTSTART must be the first occurrence of the rule itself
+  const firstDate = occurrences[0];
+  if (!firstDate) {
+    return null;
+  }
+
+  const exceptions = occurrences.filter((date) => isBreakDay(calendar, date));
+  if (exceptions.length === occurrences.length) {
+    return null;
+  }
+
+  const summary =
+    `${course.subject} ${course.catalog_nbr} ${course.component ?? ""} ${course.section ?? ""}`
+      .replace(/\s+/g, " ")
+      .trim();
+  const byDay = meeting.days.map((day) => ICAL_DAYS[day]).join(",");
+  const instructors = course.instructors
+    ? (JSON.parse(course.instructors) as string[])
+    : [];
+  const description = [
+    course.title,
+    instructors.length > 0 ? `Instructors: ${instructors.join(", ")}` : null
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  // UNTIL must be UTC when DTSTART has a TZID; 04:59Z the next day is still the end date on campus
+  const until = `${addDays(endDate, 1).replace(/-/g, "")}T045959Z`;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${course.term}-${course.id}-${index}@cornell-course-agent`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${CAMPUS_TIME_ZONE}:${formatLocalDateTime(firstDate, meeting.startMinutes!)}`,
+    `DTEND;TZID=${CAMPUS_TIME_ZONE}:${formatLocalDateTime(firstDate, meeting.endMinutes!)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${byDay};UNTIL=${until}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`
+  ];
+
+  if (meeting.location) {
+    lines.push(`LOCATION:${escapeText(meeting.location)}`);
+  }
+
+  if (exceptions.length > 0) {
+    lines.push(
+      `EXDATE;TZID=${CAMPUS_TIME_ZONE}:${exceptions
+        .map((date) => formatLocalDateTime(date, meeting.startMinutes!))
+        .join(",")}`
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Generate an iCalendar document with one recurring event per course meeting
+ */
+export function generateICS(
+  courses: CourseWithMeetings[],
+  calendar: AcademicTerm
+): ScheduleExport {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+  const events: string[][] = [];
+  const skipped: string[] = [];
+
+  for (const course of courses) {
+    course.parsedMeetings.forEach((meeting, index) => {
+      const label = `${course.subject} ${course.catalog_nbr}: ${meeting.raw}`;
+
+      if (
+        meeting.tba ||
+        meeting.startMinutes === null ||
+        meeting.endMinutes === null ||
+        meeting.days.length === 0
+      ) {
+        skipped.push(label);
+        return;
+      }
+
+      const event = meetingToEvent(course, meeting, index, calendar, stamp);
+      if (event) {
+        events.push(event);
+      } else {
+        skipped.push(label);
+      }
+    });
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Cornell Course Agent//Schedule Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Cornell ${calendar.term} Schedule`)}`,
+    `X-WR-TIMEZONE:${CAMPUS_TIME_ZONE}`,
+    ...VTIMEZONE,
+    ...events.flat(),
+    "END:VCALENDAR"
+  ];
+
+  return {
+    ics: `${lines.map(foldLine).join("\r\n")}\r\n`,
+    eventCount: events.length,
+    skipped
+  };
+}
+
+/**
+ * Load a user's schedule for a term and export it as iCalendar
+ */
+export async function buildScheduleICS(
+  env: Env,
+  userId: string,
+  calendar: AcademicTerm
+): Promise<ScheduleExport & { courseCount: number }> {
+  const result = await env.DB.prepare(
+    `SELECT c.*
+     FROM user_schedules us
+     JOIN courses c ON us.course_id = c.id AND us.term = c.term
+     WHERE us.user_id = ? AND us.term = ?
+     ORDER BY c.subject, c.catalog_nbr`
+  )
+    .bind(userId, calendar.term)
+    .all<Course>();
+
+  const courses = await attachMeetings(env, result.results);
+
+  return { ...generateICS(courses, calendar), courseCount: courses.length };
+}
@@ -0,0 +1,219 @@
+/**
+ * Ingestion job tracking
+ * Records progress of bulk course uploads so they can be monitored via /ingest-jobs/:id
+ */
+
+export type IngestJobStatus = "pending" | "running" | "completed" | "failed";
+
+export interface IngestJob {
+  id: string;
+  status: IngestJobStatus;
+  term: string;
+  total: number | null;
+  processed: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface IngestProgress {
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Only the most recent errors are kept on the job record
+ */
+const MAX_JOB_ERRORS = 50;
+
+/**
+ * Create a job; total is the expected course count when the uploader knows it
+ */
+export async function createIngestJob(
+  env: Env,
+  term: string,
+  total: number | null
+): Promise<IngestJob> {
+  const id = crypto.randomUUID();
+
+  await env.DB.prepare(
+    "INSERT INTO ingest_jobs (id, term, total) VALUES (?, ?, ?)"
+  )
+    .bind(id, term, total)
+    .run();
+
+  return (await getIngestJob(env, id))!;
+}
+
+/**
+ * Look up a job by ID
+ */
+export async function getIngestJob(
+  env: Env,
+  id: string
+): Promise<IngestJob | null> {
+  const row = await env.DB.prepare("SELECT * FROM ingest_jobs WHERE id = ?")
+    .bind(id)
+    .first<Omit<IngestJob, "errors"> & { errors: string }>();
+
+  return row ? { ...row, errors: JSON.parse(row.errors) as string[] } : null;
+}
+
+/**
+ * Mark a job as running; completed jobs reopen when more courses are sent to them
+ * Failed jobs stay failed, so a retry needs a new job
+ */
+export async function startIngestJob(env: Env, id: string): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE ingest_jobs
+     SET status = 'running', completed_at = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status != 'failed'`
+  )
+    .bind(id)
+    .run();
+}
+
+/**
+ * Add a chunk's results to the job's counters
+ * Errors are appended in SQL, so chunks from concurrent requests to the same
+ * job don't overwrite each other's; only the most recent are kept
+ */
+export async function recordIngestProgress(
+  env: Env,
+  jobId: string,
+  progress: IngestProgress
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE ingest_jobs
+     SET processed = processed + ?,
+         succeeded = succeeded + ?,
+         skipped = skipped + ?,
+         failed = failed + ?,
+         errors = (
+           SELECT json_group_array(value) FROM (
+             SELECT value, seq FROM (
+               SELECT value, key AS seq FROM json_each(ingest_jobs.errors)
+               UNION ALL
+               SELECT value, json_array_length(ingest_jobs.errors) + key AS seq
+               FROM json_each(?)
+               ORDER BY seq DESC
+               LIMIT ?
+             )
+             ORDER BY seq
+           )
+         ),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  )
+    .bind(
+      progress.succeeded + progress.skipped + progress.failed,
+      progress.succeeded,
+      progress.skipped,
+      progress.failed,
+      JSON.stringify(progress.errors),
+      MAX_JOB_ERRORS,
+      jobId
+    )
+    .run();
+}
+
+/**
+ * Close out a request's work on a job
+ * Jobs without a known total complete after each request; others once all courses arrive
+ * A job another request marked failed stays failed
+ */
+export async function finishIngestJob(env: Env, id: string): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE ingest_jobs
+     SET status = CASE
+           WHEN total IS NULL OR processed >= total THEN 'completed'
+           ELSE 'running'
+         END,
+         completed_at = CASE
+           WHEN total IS NULL OR processed >= total THEN CURRENT_TIMESTAMP
+         END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status != 'failed'`
+  )
+    .bind(id)
+    .run();
+}
+
+/**
+ * Mark a job as failed after an unrecoverable error
+ * The message is appended in SQL, like recordIngestProgress, so errors other
+ * requests recorded meanwhile are kept
+ */
+export async function failIngestJob(
+  env: Env,
+  id: string,
+  error: unknown
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE ingest_jobs
+     SET status = 'failed',
+         errors = (
+           SELECT json_group_array(value) FROM (
+             SELECT value, seq FROM (
+               SELECT value, key AS seq FROM json_each(ingest_jobs.errors)
+               UNION ALL
+               SELECT ?, json_array_length(ingest_jobs.errors) AS seq
+               ORDER BY seq DESC
+               LIMIT ?
+             )
+             ORDER BY seq
+           )
+         ),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  )
+    .bind(`Job failed: ${error}`, MAX_JOB_ERRORS, id)
+    .run();
+}
+
+export interface IngestAuditEntry {
+  admin: string;
+  action: "create_job" | "ingest" | "ingest_requirements";
+  jobId: string | null;
+  terms?: string[];
+  courseIds?: string[];
+  succeeded?: number;
+  skipped?: number;
+  failed?: number;
+  ip: string | null;
+}
+
+/**
+ * Record an admin ingestion action in the audit log
+ */
+export async function recordIngestAudit(
+  env: Env,
+  entry: IngestAuditEntry
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO ingest_audit_log (
+      admin, action, job_id, terms, course_ids, course_count,
+      succeeded, skipped, failed, ip
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      entry.admin,
+      entry.action,
+      entry.jobId,
+      entry.terms ? JSON.stringify(entry.terms) : null,
+      entry.courseIds ? JSON.stringify(entry.courseIds) : null,
+      entry.courseIds?.length ?? 0,
+      entry.succeeded ?? null,
+      entry.skipped ?? null,
+      entry.failed ?? null,
+      entry.ip
+    )
+    .run();
+}
@@ -3,64 +3,365 @@
  * Handles importing Cornell course data into Vectorize and D1
  */
 
-export interface CornellCourse {
-  id: string;
-  subject: string;
-  catalogNbr: string;
-  title: string;
-  section: string;
-  classNbr: number;
-  component: string;
-  credits: number;
-  status: string;
-  meetings: string[];
-  instructors: string[];
-  attributes: string[];
-  prereqs: string;
-  restrictions: string;
-  description: string;
-  notes: string[];
-  text_for_embedding: string;
+import { z } from "zod/v3";
+import { normalizeTerm, parseMeeting, dayMask } from "./course-helpers";
+import { parsePrerequisites } from "./prerequisites";
+import { diffCourse, type StoredCourse } from "./course-changes";
+import { METADATA_DAYS } from "./course-filters";
+import {
+  type IngestJob,
+  type IngestProgress,
+  startIngestJob,
+  recordIngestProgress,
+  finishIngestJob,
+  failIngestJob
+} from "./ingest-jobs";
+
+/**
+ * Limits on a single /ingest-courses request
+ * Each course takes several D1 statements, so one invocation handles one
+ * chunk's worth within the Workers limit on D1 queries
+ */
+export const MAX_INGEST_BODY_BYTES = 2 * 1024 * 1024;
+export const MAX_INGEST_COURSES = 50;
+const MAX_TEXT_LENGTH = 10000;
+
+/**
+ * Schema for one course in an ingestion payload
+ * term is optional; courses without one are assigned the job's term
+ */
+export const cornellCourseSchema = z.object({
+  id: z.string().min(1).max(64),
+  term: z.string().max(16).optional(),
+  subject: z.string().min(1).max(16),
+  catalogNbr: z.string().min(1).max(16),
+  title: z.string().min(1).max(512),
+  section: z.string().max(16),
+  classNbr: z.number().int(),
+  component: z.string().max(16),
+  // Component structure from the roster's enrollment groups (see src/course-components.ts)
+  enrollGroup: z.number().int().optional(),
+  assocClass: z.string().max(16).optional(),
+  componentsRequired: z.array(z.string().max(16)).max(10).optional(),
+  componentsOptional: z.array(z.string().max(16)).max(10).optional(),
+  credits: z.number().min(0).max(30),
+  status: z.string().max(16),
+  meetings: z.array(z.string().max(512)).max(50).default([]),
+  instructors: z.array(z.string().max(256)).max(50).default([]),
+  attributes: z.array(z.string().max(256)).max(100).default([]),
+  prereqs: z.string().max(MAX_TEXT_LENGTH).default(""),
+  restrictions: z.string().max(MAX_TEXT_LENGTH).default(""),
+  description: z.string().max(MAX_TEXT_LENGTH).default(""),
+  notes: z.array(z.string().max(MAX_TEXT_LENGTH)).max(50).default([]),
+  text_for_embedding: z.string().min(1).max(MAX_TEXT_LENGTH)
+});
+
+export const ingestPayloadSchema = z
+  .array(cornellCourseSchema)
+  .min(1)
+  .max(MAX_INGEST_COURSES);
+
+export type CourseInput = z.infer<typeof cornellCourseSchema>;
+
+export type CornellCourse = CourseInput & { term: string };
+
+/**
+ * Read and validate an /ingest-courses request body
+ */
+export async function parseIngestRequest(
+  request: Request
+): Promise<{ courses: CourseInput[] } | { error: string; status: 400 | 413 }> {
+  const declaredLength = Number(request.headers.get("Content-Length") || 0);
+  if (declaredLength > MAX_INGEST_BODY_BYTES) {
+    return {
+      error: `Request body exceeds ${MAX_INGEST_BODY_BYTES} bytes`,
+      status: 413
+    };
+  }
+
+  const body = await request.text();
+  if (new TextEncoder().encode(body).length > MAX_INGEST_BODY_BYTES) {
+    return {
+      error: `Request body exceeds ${MAX_INGEST_BODY_BYTES} bytes`,
+      status: 413
+    };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { error: "Request body is not valid JSON", status: 400 };
+  }
+
+  const parsed = ingestPayloadSchema.safeParse(payload);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 20)
+      .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`);
+    return { error: `Invalid course data: ${issues.join("; ")}`, status: 400 };
+  }
+
+  return { courses: parsed.data };
+}
+
+/**
+ * Name of the Vectorize index (must match index_name in wrangler.jsonc)
+ */
+const VECTORIZE_INDEX_NAME = "cornell-courses";
+
+/**
+ * Vector metadata properties that search filters on; each needs a Vectorize metadata index
+ */
+const VECTOR_METADATA_INDEXES: {
+  propertyName: string;
+  indexType: "string" | "number" | "boolean";
+}[] = [
+  { propertyName: "term", indexType: "string" },
+  { propertyName: "subject", indexType: "string" },
+  { propertyName: "catalogNbrValue", indexType: "number" },
+  { propertyName: "credits", indexType: "number" },
+  ...METADATA_DAYS.map((day) => ({
+    propertyName: `meets${day}`,
+    indexType: "boolean" as const
+  }))
+];
+
+/**
+ * Set once the metadata indexes are known to exist, so later batches in the
+ * same isolate skip the Cloudflare API
+ */
+let metadataIndexesReady = false;
+
+/**
+ * Create any missing Vectorize metadata indexes through the Cloudflare API
+ * Metadata indexes only cover vectors written after they exist, so this runs before ingesting
+ */
+export async function ensureVectorMetadataIndexes(env: Env): Promise<void> {
+  if (metadataIndexesReady) return;
+
+  if (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_API_TOKEN) {
+    console.warn(
+      "CLOUDFLARE_ACCOUNT_ID/CLOUDFLARE_API_TOKEN not set; skipping metadata index creation. Create them with `npx wrangler vectorize create-metadata-index` (see SETUP.md)"
+    );
+    return;
+  }
+
+  const baseUrl = `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/vectorize/v2/indexes/${VECTORIZE_INDEX_NAME}/metadata_index`;
+  const headers = {
+    Authorization: `Bearer ${env.CLOUDFLARE_API_TOKEN}`,
+    "Content-Type": "application/json"
+  };
+
+  const listResponse = await fetch(`${baseUrl}/list`, { headers });
+  if (!listResponse.ok) {
+    throw new Error(
+      `Failed to list metadata indexes: HTTP ${listResponse.status}`
+    );
+  }
+
+  const { result } = (await listResponse.json()) as {
+    result: { metadataIndexes: { propertyName: string }[] };
+  };
+  const existing = new Set(
+    result.metadataIndexes.map((index) => index.propertyName)
+  );
+
+  for (const index of VECTOR_METADATA_INDEXES) {
+    if (existing.has(index.propertyName)) continue;
+
+    const createResponse = await fetch(`${baseUrl}/create`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(index)
+    });
+    if (!createResponse.ok) {
+      throw new Error(
+        `Failed to create metadata index ${index.propertyName}: HTTP ${createResponse.status}`
+      );
+    }
+    console.log(`Created metadata index ${index.propertyName}`);
+  }
+
+  metadataIndexesReady = true;
 }
 
 /**
- * Generate embedding for a course using Workers AI
+ * Courses written per D1 batch and embedding call
+ * Keeps lookups within D1's 100 bound parameters and bge-base's 100 texts per request
+ */
+const INGEST_CHUNK_SIZE = 50;
+
+/**
+ * Components that are stored but not indexed for search
+ * Discussion/lab sections would duplicate their lecture in results
  */
-async function generateEmbedding(ai: Ai, text: string): Promise<number[]> {
+const SKIP_INDEX_COMPONENTS = ["DIS", "LAB"];
+
+interface HashedCourse extends CornellCourse {
+  contentHash: string;
+  previous: StoredCourse | null; // Stored row from an earlier ingestion
+}
+
+export interface IngestResult {
+  jobId: string;
+  success: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * SHA-256 of a course record, used to skip rows that haven't changed
+ */
+async function hashCourse(course: CornellCourse): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(course))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Generate embeddings for a batch of texts using Workers AI
+ */
+async function generateEmbeddings(
+  ai: Ai,
+  texts: string[]
+): Promise<number[][]> {
   const response = (await ai.run("@cf/baai/bge-base-en-v1.5", {
-    text: [text]
+    text: texts
   })) as { data: number[][] };
 
-  return response.data[0];
+  return response.data;
 }
 
 /**
- * Ingest a single course into D1 and Vectorize
+ * Attach each course's stored row, if any, so unchanged rows can be skipped and changes diffed
  */
-export async function ingestCourse(
+async function loadStoredCourses(
   env: Env,
-  course: CornellCourse
-): Promise<{ courseId: string; vectorId: string | null }> {
-  // 1. Insert into D1 (always insert all sections)
-  await env.DB.prepare(
-    `
-    INSERT INTO courses (
-      id, subject, catalog_nbr, title, section, class_nbr,
-      component, status, credits, description, meetings,
-      instructors, prerequisites, restrictions, attributes,
-      notes, text_for_embedding
+  courses: HashedCourse[]
+): Promise<void> {
+  const terms = [...new Set(courses.map((course) => course.term))];
+
+  for (const term of terms) {
+    const ids = courses
+      .filter((course) => course.term === term)
+      .map((course) => course.id);
+    const rows = await env.DB.prepare(
+      `SELECT id, content_hash, title, credits, status, meetings,
+              instructors, prerequisites, text_for_embedding
+       FROM courses
+       WHERE term = ? AND id IN (${ids.map(() => "?").join(", ")})`
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(id)
-    DO UPDATE SET
-      status = excluded.status,
-      updated_at = CURRENT_TIMESTAMP
-  `
-  )
-    .bind(
+      .bind(term, ...ids)
+      .all<StoredCourse>();
+
+    const stored = new Map(rows.results.map((row) => [row.id, row]));
+    for (const course of courses) {
+      if (course.term === term) {
+        course.previous = stored.get(course.id) ?? null;
+      }
+    }
+  }
+}
+
+/**
+ * Look up existing vectors so sections whose embedding text is unchanged keep their values
+ */
+async function getExistingEmbeddings(
+  env: Env,
+  vectorIds: string[]
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+
+  // getByIds accepts a limited number of IDs per call
+  for (let i = 0; i < vectorIds.length; i += 20) {
+    const vectors = await env.VECTORIZE.getByIds(vectorIds.slice(i, i + 20));
+    for (const vector of vectors) {
+      embeddings.set(vector.id, Array.from(vector.values));
+    }
+  }
+
+  return embeddings;
+}
+
+/**
+ * D1 statements that write a course, its structured meetings and its keyword index row
+ * Changes to an existing section are recorded in course_changes
+ */
+function courseStatements(
+  env: Env,
+  course: CornellCourse,
+  previous: StoredCourse | null
+) {
+  // 1. Record what changed since the section was last ingested
+  const changes = previous ? diffCourse(previous, course) : [];
+  const statements = changes.map((change) =>
+    env.DB.prepare(
+      `INSERT INTO course_changes (
+        term, course_id, subject, catalog_nbr, component, section,
+        field, old_value, new_value
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      course.term,
       course.id,
       course.subject,
       course.catalogNbr,
+      course.component,
+      course.section,
+      change.field,
+      change.oldValue,
+      change.newValue
+    )
+  );
+
+  // 2. Upsert every column of the section
+  statements.push(
+    env.DB.prepare(
+      `
+      INSERT INTO courses (
+        id, term, subject, catalog_nbr, title, section, class_nbr,
+        component, status, credits, description, meetings,
+        instructors, prerequisites, prerequisites_parsed, restrictions,
+        attributes, notes, text_for_embedding, enroll_group, assoc_class,
+        components_required, components_optional
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(term, id)
+      DO UPDATE SET
+        subject = excluded.subject,
+        catalog_nbr = excluded.catalog_nbr,
+        title = excluded.title,
+        section = excluded.section,
+        class_nbr = excluded.class_nbr,
+        component = excluded.component,
+        status = excluded.status,
+        credits = excluded.credits,
+        description = excluded.description,
+        meetings = excluded.meetings,
+        instructors = excluded.instructors,
+        prerequisites = excluded.prerequisites,
+        prerequisites_parsed = excluded.prerequisites_parsed,
+        restrictions = excluded.restrictions,
+        attributes = excluded.attributes,
+        notes = excluded.notes,
+        text_for_embedding = excluded.text_for_embedding,
+        enroll_group = excluded.enroll_group,
+        assoc_class = excluded.assoc_class,
+        components_required = excluded.components_required,
+        components_optional = excluded.components_optional,
+        updated_at = CURRENT_TIMESTAMP
+    `
+    ).bind(
+      course.id,
+      course.term,
+      course.subject,
+      course.catalogNbr,
       course.title,
       course.section,
       course.classNbr,
@@ -71,72 +372,265 @@ export async function ingestCourse(
       JSON.stringify(course.meetings),
       JSON.stringify(course.instructors),
       course.prereqs,
+      JSON.stringify(parsePrerequisites(course.prereqs)),
       course.restrictions,
       JSON.stringify(course.attributes),
       JSON.stringify(course.notes),
-      course.text_for_embedding
-    )
-    .run();
+      course.text_for_embedding,
+      course.enrollGroup ?? null,
+      course.assocClass ?? null,
+      course.componentsRequired
+        ? JSON.stringify(course.componentsRequired)
+        : null,
+      course.componentsOptional
+        ? JSON.stringify(course.componentsOptional)
+        : null
+    ),
 
-  // 2. Only create embeddings for primary sections (LEC, SEM, IND, etc.)
-  // Skip discussion/lab sections (DIS, LAB) to avoid duplicates in search
-  const skipComponents = ["DIS", "LAB"];
+    // 3. Replace the section's structured meetings
+    env.DB.prepare(
+      "DELETE FROM course_meetings WHERE term = ? AND course_id = ?"
+    ).bind(course.term, course.id),
+    ...course.meetings.map(parseMeeting).map((meeting) =>
+      env.DB.prepare(
+        `INSERT INTO course_meetings (
+          term, course_id, days, day_mask, start_min, end_min,
+          location, start_date, end_date, tba, raw
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        course.term,
+        course.id,
+        meeting.days.join(""),
+        dayMask(meeting.days),
+        meeting.startMinutes,
+        meeting.endMinutes,
+        meeting.location,
+        meeting.startDate,
+        meeting.endDate,
+        meeting.tba ? 1 : 0,
+        meeting.raw
+      )
+    )
+  );
 
-  if (skipComponents.includes(course.component)) {
-    console.log(`Skipping embedding for ${course.id} (${course.component})`);
-    return { courseId: course.id, vectorId: null };
+  // 4. Refresh the keyword search index for primary sections
+  if (!SKIP_INDEX_COMPONENTS.includes(course.component)) {
+    statements.push(
+      env.DB.prepare(
+        "DELETE FROM courses_fts WHERE term = ? AND course_id = ?"
+      ).bind(course.term, course.id),
+      env.DB.prepare(
+        `INSERT INTO courses_fts (title, description, instructors, term, course_id)
+         VALUES (?, ?, ?, ?, ?)`
+      ).bind(
+        course.title,
+        course.description,
+        course.instructors.join(", "),
+        course.term,
+        course.id
+      )
+    );
   }
 
-  // 3. Generate embedding
-  const embedding = await generateEmbedding(env.AI, course.text_for_embedding);
-
-  // 4. Insert into Vectorize
-  const vectorId = `course-${course.id}`;
-  await env.VECTORIZE.upsert([
-    {
-      id: vectorId,
-      values: embedding,
-      metadata: {
-        courseId: course.id,
-        subject: course.subject,
-        catalogNbr: course.catalogNbr,
-        title: course.title,
-        section: course.section,
-        component: course.component
-      }
+  return statements;
+}
+
+/**
+ * Vector IDs are term-qualified so terms don't overwrite each other
+ */
+function vectorId(course: CornellCourse): string {
+  return `course-${course.term}-${course.id}`;
+}
+
+/**
+ * Build the Vectorize record for a primary section
+ */
+function courseVector(
+  course: CornellCourse,
+  embedding: number[]
+): VectorizeVector {
+  const days = new Set(
+    course.meetings.map(parseMeeting).flatMap((meeting) => meeting.days)
+  );
+
+  return {
+    id: vectorId(course),
+    values: embedding,
+    metadata: {
+      courseId: course.id,
+      term: course.term,
+      subject: course.subject,
+      catalogNbr: course.catalogNbr,
+      title: course.title,
+      section: course.section,
+      component: course.component,
+      catalogNbrValue: parseInt(course.catalogNbr, 10),
+      credits: course.credits,
+      ...Object.fromEntries(
+        METADATA_DAYS.map((day) => [`meets${day}`, days.has(day)])
+      )
     }
-  ]);
+  };
+}
+
+/**
+ * Ingest a chunk of courses into D1 and Vectorize
+ * The D1 batch runs as one transaction; content hashes are written last so an
+ * interrupted chunk is retried in full on the next run
+ */
+async function ingestChunk(env: Env, courses: HashedCourse[]): Promise<void> {
+  await env.DB.batch(
+    courses.flatMap(({ contentHash: _hash, previous, ...course }) =>
+      courseStatements(env, course, previous)
+    )
+  );
+
+  const indexed = courses.filter(
+    (course) => !SKIP_INDEX_COMPONENTS.includes(course.component)
+  );
+
+  // Only re-embed sections whose embedding text changed or that have no vector yet
+  const unchangedText = indexed.filter(
+    (course) =>
+      course.previous?.text_for_embedding === course.text_for_embedding
+  );
+  const embeddings = await getExistingEmbeddings(
+    env,
+    unchangedText.map(vectorId)
+  );
+  const toEmbed = indexed.filter((course) => !embeddings.has(vectorId(course)));
+
+  if (toEmbed.length > 0) {
+    const generated = await generateEmbeddings(
+      env.AI,
+      toEmbed.map((course) => course.text_for_embedding)
+    );
+    toEmbed.forEach((course, i) => {
+      embeddings.set(vectorId(course), generated[i]);
+    });
+  }
+
+  // Upsert every indexed section so metadata (meeting days, credits) stays current
+  if (indexed.length > 0) {
+    await env.VECTORIZE.upsert(
+      indexed.map((course) =>
+        courseVector(course, embeddings.get(vectorId(course))!)
+      )
+    );
+  }
 
-  return { courseId: course.id, vectorId };
+  await env.DB.batch(
+    courses.map((course) =>
+      env.DB.prepare(
+        "UPDATE courses SET content_hash = ? WHERE term = ? AND id = ?"
+      ).bind(course.contentHash, course.term, course.id)
+    )
+  );
 }
 
 /**
- * Batch ingest multiple courses
+ * Batch ingest multiple courses as part of an ingestion job
+ * Courses without their own term are assigned the job's term; unchanged rows are skipped
  */
 export async function ingestCourses(
   env: Env,
-  courses: CornellCourse[]
-): Promise<{ success: number; failed: number; errors: string[] }> {
-  let success = 0;
-  let failed = 0;
-  const errors: string[] = [];
+  courses: CourseInput[],
+  job: IngestJob
+): Promise<IngestResult> {
+  const result: IngestResult = {
+    jobId: job.id,
+    success: 0,
+    skipped: 0,
+    failed: 0,
+    errors: []
+  };
 
-  for (const course of courses) {
+  await startIngestJob(env, job.id);
+
+  try {
+    // Missing indexes only weaken search filtering, so ingestion goes ahead without them
     try {
-      await ingestCourse(env, course);
-      success++;
+      await ensureVectorMetadataIndexes(env);
+    } catch (error) {
+      console.error(
+        "[ingestCourses] Could not create metadata indexes; create them by hand (see SETUP.md):",
+        error
+      );
+    }
+
+    for (let i = 0; i < courses.length; i += INGEST_CHUNK_SIZE) {
+      const progress: IngestProgress = {
+        succeeded: 0,
+        skipped: 0,
+        failed: 0,
+        errors: []
+      };
+      const fail = (course: CourseInput, error: unknown) => {
+        const errorMsg = `Failed to ingest ${course.id}: ${error}`;
+        progress.failed++;
+        progress.errors.push(errorMsg);
+        console.error(errorMsg);
+      };
 
-      // Log progress every 50 courses
-      if (success % 50 === 0) {
-        console.log(`Ingested ${success}/${courses.length} courses`);
+      const chunk: HashedCourse[] = [];
+      for (const course of courses.slice(i, i + INGEST_CHUNK_SIZE)) {
+        const term = normalizeTerm(course.term || job.term);
+        if (!term) {
+          fail(course, new Error(`Invalid term "${course.term || job.term}"`));
+          continue;
+        }
+
+        const record = { ...course, term };
+        chunk.push({
+          ...record,
+          contentHash: await hashCourse(record),
+          previous: null
+        });
       }
-    } catch (error) {
-      failed++;
-      const errorMsg = `Failed to ingest ${course.id}: ${error}`;
-      errors.push(errorMsg);
-      console.error(errorMsg);
+
+      if (chunk.length > 0) {
+        await loadStoredCourses(env, chunk);
+      }
+      const changed = chunk.filter(
+        (course) => course.previous?.content_hash !== course.contentHash
+      );
+      progress.skipped = chunk.length - changed.length;
+
+      try {
+        if (changed.length > 0) {
+          await ingestChunk(env, changed);
+        }
+        progress.succeeded = changed.length;
+      } catch (error) {
+        // Retry one at a time so a single bad row doesn't fail the whole chunk
+        console.warn(`Chunk at ${i} failed, retrying individually: ${error}`);
+        for (const course of changed) {
+          try {
+            await ingestChunk(env, [course]);
+            progress.succeeded++;
+          } catch (courseError) {
+            fail(course, courseError);
+          }
+        }
+      }
+
+      await recordIngestProgress(env, job.id, progress);
+      result.success += progress.succeeded;
+      result.skipped += progress.skipped;
+      result.failed += progress.failed;
+      result.errors.push(...progress.errors);
+
+      console.log(
+        `Ingested ${Math.min(i + INGEST_CHUNK_SIZE, courses.length)}/${courses.length} courses (${result.skipped} unchanged)`
+      );
     }
+
+    await finishIngestJob(env, job.id);
+  } catch (error) {
+    await failIngestJob(env, job.id, error);
+    throw error;
   }
 
-  return { success, failed, errors };
+  return result;
 }
@@ -0,0 +1,103 @@
+/**
+ * LLM provider configuration
+ * Selects the chat model from env vars: OpenAI, OpenAI through Cloudflare AI
+ * Gateway, Workers AI via the AI binding, or an OpenAI-compatible endpoint
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { createWorkersAI, type WorkersAI } from "workers-ai-provider";
+
+export type LLMProvider =
+  | "openai"
+  | "gateway"
+  | "workers-ai"
+  | "openai-compatible";
+
+const DEFAULT_MODELS: Record<LLMProvider, string | null> = {
+  openai: "gpt-4o-mini",
+  gateway: "gpt-4o-mini",
+  "workers-ai": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+  "openai-compatible": null // Local servers name their own models
+};
+
+/**
+ * The active provider and what it still needs to run
+ */
+export interface ProviderConfig {
+  provider: LLMProvider;
+  model: string | null;
+  missing: string[]; // Env vars or bindings that must be set before the model can be used
+}
+
+function isProvider(value: string): value is LLMProvider {
+  return value in DEFAULT_MODELS;
+}
+
+/**
+ * Resolve the provider from LLM_PROVIDER (default "openai") and LLM_MODEL
+ */
+export function resolveProviderConfig(env: Env): ProviderConfig {
+  const name = env.LLM_PROVIDER || "openai";
+  if (!isProvider(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}"; expected one of ${Object.keys(DEFAULT_MODELS).join(", ")}`
+    );
+  }
+
+  const model = env.LLM_MODEL || DEFAULT_MODELS[name];
+  const missing: string[] = [];
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) missing.push("OPENAI_API_KEY");
+      break;
+    case "gateway":
+      if (!env.OPENAI_API_KEY) missing.push("OPENAI_API_KEY");
+      if (!env.GATEWAY_BASE_URL) missing.push("GATEWAY_BASE_URL");
+      break;
+    case "workers-ai":
+      if (!env.AI) missing.push("AI binding");
+      break;
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) missing.push("LLM_BASE_URL");
+      break;
+  }
+
+  if (!model) missing.push("LLM_MODEL");
+
+  return { provider: name, model, missing };
+}
+
+/**
+ * Create the chat model for the configured provider
+ * Throws when the provider is missing required configuration
+ */
+export function createChatModel(env: Env): LanguageModel {
+  const { provider, model, missing } = resolveProviderConfig(env);
+  if (missing.length > 0 || !model) {
+    throw new Error(
+      `LLM provider "${provider}" is missing ${missing.join(", ")}; set it in .dev.vars or with \`wrangler secret put\``
+    );
+  }
+
+  switch (provider) {
+    case "openai":
+      return createOpenAI({ apiKey: env.OPENAI_API_KEY })(model);
+    case "gateway":
+      return createOpenAI({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.GATEWAY_BASE_URL
+      })(model);
+    case "workers-ai":
+      return createWorkersAI({ binding: env.AI })(
+        model as Parameters<WorkersAI>[0]
+      );
+    case "openai-compatible":
+      // Local servers (Ollama, LM Studio, vLLM) implement Chat Completions, not the Responses API
+      return createOpenAI({
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: env.LLM_BASE_URL
+      }).chat(model);
+  }
+}
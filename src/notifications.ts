@@ -0,0 +1,130 @@
+/**
+ * Schedule change notifications
+ * After ingestion, tells students about changes to sections in their schedules
+ * by queueing a message in each affected user's Chat Durable Object
+ */
+
+import type { CourseChangeRow } from "./course-changes";
+import { STATUS_LABELS } from "./course-helpers";
+
+/**
+ * Describe a change from the student's point of view, e.g.
+ * "Your DIS 204 for MATH 1920 is now closed"
+ */
+export function describeScheduleChange(change: CourseChangeRow): string {
+  const course = `${change.subject} ${change.catalog_nbr}`;
+  const section = [change.component, change.section].filter(Boolean).join(" ");
+  const subject = section ? `Your ${section} for ${course}` : `Your ${course}`;
+  const oldValue = change.old_value || "(none)";
+  const newValue = change.new_value || "(none)";
+
+  switch (change.field) {
+    case "status":
+      return `${subject} is now ${STATUS_LABELS[newValue] || newValue}`;
+    case "meetings":
+      return `${subject} moved from ${oldValue} to ${newValue}`;
+    case "instructors":
+      return `${subject} is now taught by ${newValue} (was ${oldValue})`;
+    default:
+      return `${subject} changed its ${change.field} from "${oldValue}" to "${newValue}"`;
+  }
+}
+
+/**
+ * Build one notification message per term from a user's pending changes
+ */
+function buildNotification(changes: CourseChangeRow[]): string {
+  const terms = [...new Set(changes.map((change) => change.term))];
+
+  return terms
+    .map((term) => {
+      const lines = changes
+        .filter((change) => change.term === term)
+        .map((change) => `- ${describeScheduleChange(change)}`);
+      return `📣 Changes to your ${term} schedule:\n${lines.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Claims older than this are from runs that stopped before finishing, and are
+ * taken over by the next run
+ */
+const CLAIM_TIMEOUT = "-10 minutes";
+
+/**
+ * Notify students of catalog changes recorded since the last run
+ * Only changes made after a student added the section are sent. Each run first
+ * claims the pending changes in one statement, so overlapping runs never send
+ * the same change. Claimed changes are marked notified once queued for every
+ * affected user; a change that failed for someone is released and retried for
+ * all its users
+ */
+export async function notifyScheduleChanges(
+  env: Env
+): Promise<{ users: number; changes: number }> {
+  const claimed = await env.DB.prepare(
+    `UPDATE course_changes SET claimed_at = CURRENT_TIMESTAMP
+     WHERE notified_at IS NULL
+     AND (claimed_at IS NULL OR claimed_at < datetime('now', ?))
+     RETURNING id`
+  )
+    .bind(CLAIM_TIMEOUT)
+    .all<{ id: number }>();
+
+  if (claimed.results.length === 0) {
+    return { users: 0, changes: 0 };
+  }
+  const claimedIds = JSON.stringify(claimed.results.map((row) => row.id));
+
+  const result = await env.DB.prepare(
+    `SELECT us.user_id, cc.*
+     FROM course_changes cc
+     JOIN user_schedules us ON us.course_id = cc.course_id AND us.term = cc.term
+     WHERE cc.id IN (SELECT value FROM json_each(?))
+     AND cc.detected_at >= us.added_at
+     ORDER BY us.user_id, cc.id`
+  )
+    .bind(claimedIds)
+    .all<CourseChangeRow & { user_id: string }>();
+
+  const changesByUser = new Map<string, CourseChangeRow[]>();
+  for (const { user_id, ...change } of result.results) {
+    const changes = changesByUser.get(user_id) || [];
+    changes.push(change);
+    changesByUser.set(user_id, changes);
+  }
+
+  // Changes that couldn't be queued for someone go back to pending for the next run
+  const undelivered = new Set<number>();
+  let users = 0;
+  for (const [userId, changes] of changesByUser) {
+    try {
+      const chat = env.Chat.get(env.Chat.idFromString(userId));
+      await chat.enqueueNotification(buildNotification(changes));
+      users++;
+    } catch (error) {
+      console.error(`[notifications] Failed to notify ${userId}:`, error);
+      for (const change of changes) undelivered.add(change.id);
+    }
+  }
+
+  await env.DB.prepare(
+    `UPDATE course_changes
+     SET notified_at = CASE
+           WHEN id IN (SELECT value FROM json_each(?)) THEN NULL
+           ELSE CURRENT_TIMESTAMP
+         END,
+         claimed_at = NULL
+     WHERE id IN (SELECT value FROM json_each(?))`
+  )
+    .bind(JSON.stringify([...undelivered]), claimedIds)
+    .run();
+
+  const sent = result.results.length - undelivered.size;
+  console.log(
+    `[notifications] Sent ${sent} changes to ${users} users; ${undelivered.size} left pending`
+  );
+
+  return { users, changes: sent };
+}
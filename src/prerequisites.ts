@@ -0,0 +1,281 @@
+/**
+ * Prerequisite parsing and evaluation
+ * Turns Cornell's free-text prerequisite strings into boolean expressions over course codes
+ */
+
+/**
+ * Boolean expression over course codes
+ */
+export type PrereqExpr =
+  | { type: "course"; code: string } // e.g. "CS 2110"
+  | { type: "and"; items: PrereqExpr[] }
+  | { type: "or"; items: PrereqExpr[] };
+
+/**
+ * Structured form of a course's prerequisite text, stored as JSON at ingestion
+ */
+export interface ParsedPrerequisites {
+  prerequisites: PrereqExpr | null; // Must be completed beforehand
+  corequisites: PrereqExpr | null; // Completed beforehand or taken the same term
+  allowsEquivalent: boolean; // "or equivalent" / "or permission of instructor"
+  raw: string;
+}
+
+type Connective = "and" | "or";
+
+interface Separator {
+  connective: Connective | null; // null for a bare comma
+  weak: boolean; // Comma-based separators bind more loosely than bare "and"/"or"
+}
+
+const LABEL_PATTERN =
+  /(prerequisites?\s+or\s+corequisites?|prerequisites?|corequisites?)\s*:/gi;
+
+const EQUIVALENT_PATTERN =
+  /,?\s*or\s+(?:(?:its|an?)\s+)?equivalents?|,?\s*or\s+(?:the\s+)?permission\s+of\s+(?:the\s+)?instructor/gi;
+
+// Subjects are matched case-sensitively so ordinary words aren't read as subject codes
+const TOKEN_PATTERN =
+  /\(|\)|,|;|\/|\b(?:and|AND)\b|\b(?:or|OR)\b|\b([A-Z]{2,}(?:&[A-Z]+)?)\s*(\d{4})\b|\b(\d{4})\b/g;
+
+/**
+ * Build an and/or node, flattening single items and nested nodes of the same type
+ */
+function combine(type: Connective, items: PrereqExpr[]): PrereqExpr | null {
+  const flattened = items.flatMap((item) =>
+    item.type === type ? item.items : [item]
+  );
+
+  if (flattened.length === 0) return null;
+  if (flattened.length === 1) return flattened[0];
+  return { type, items: flattened };
+}
+
+/**
+ * Combine items with "or" binding tighter than "and"
+ * ("A or B and C or D" reads as "(A or B) and (C or D)")
+ */
+function combineTier(
+  items: PrereqExpr[],
+  connectives: Connective[]
+): PrereqExpr | null {
+  const andGroups: PrereqExpr[][] = [[items[0]]];
+
+  connectives.forEach((connective, idx) => {
+    if (connective === "and") {
+      andGroups.push([]);
+    }
+    andGroups[andGroups.length - 1].push(items[idx + 1]);
+  });
+
+  return combine(
+    "and",
+    andGroups
+      .map((group) => combine("or", group))
+      .filter((expr): expr is PrereqExpr => expr !== null)
+  );
+}
+
+/**
+ * Combine a flat sequence of items, resolving comma lists and separator precedence
+ * "A, B, and C" is one and-list; "A or B, and C" reads as "(A or B) and C"
+ */
+function combineSequence(
+  items: PrereqExpr[],
+  separators: Separator[]
+): PrereqExpr | null {
+  if (items.length === 0) return null;
+
+  // A bare comma takes the connective of the separator that ends its list
+  const resolved = separators.map((separator, idx) => {
+    if (separator.connective) return separator;
+    const next = separators
+      .slice(idx + 1)
+      .find((candidate) => candidate.connective);
+    return { connective: next?.connective ?? "and", weak: true };
+  }) as { connective: Connective; weak: boolean }[];
+
+  // Split on weak separators first, then combine each chunk on strong ones
+  const chunks: PrereqExpr[] = [];
+  const chunkConnectives: Connective[] = [];
+  let chunkItems: PrereqExpr[] = [items[0]];
+  let chunkSeps: Connective[] = [];
+
+  resolved.forEach((separator, idx) => {
+    if (separator.weak) {
+      const chunk = combineTier(chunkItems, chunkSeps);
+      if (chunk) chunks.push(chunk);
+      chunkConnectives.push(separator.connective);
+      chunkItems = [items[idx + 1]];
+      chunkSeps = [];
+    } else {
+      chunkItems.push(items[idx + 1]);
+      chunkSeps.push(separator.connective);
+    }
+  });
+
+  const lastChunk = combineTier(chunkItems, chunkSeps);
+  if (lastChunk) chunks.push(lastChunk);
+
+  return combineTier(chunks, chunkConnectives.slice(0, chunks.length - 1));
+}
+
+/**
+ * Parse one labelled clause (e.g. the text after "Prerequisite:") into an expression
+ */
+function parseClause(text: string): PrereqExpr | null {
+  // Stack of open groups; each holds the items and separators seen so far
+  const stack: { items: PrereqExpr[]; separators: Separator[] }[] = [
+    { items: [], separators: [] }
+  ];
+  let pending = null as Separator | null;
+  let lastSubject: string | null = null;
+
+  const pushItem = (item: PrereqExpr | null) => {
+    if (!item) return;
+    const group = stack[stack.length - 1];
+    if (group.items.length > 0) {
+      group.separators.push(pending ?? { connective: "and", weak: true });
+    }
+    group.items.push(item);
+    pending = null;
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[0].toLowerCase();
+
+    if (match[1] && match[2]) {
+      lastSubject = match[1].toUpperCase();
+      pushItem({ type: "course", code: `${lastSubject} ${match[2]}` });
+    } else if (match[3]) {
+      // Bare catalog number inherits the previous subject ("CS 2110 or 2112")
+      if (lastSubject) {
+        pushItem({ type: "course", code: `${lastSubject} ${match[3]}` });
+      }
+    } else if (token === "(") {
+      stack.push({ items: [], separators: [] });
+      pending = null;
+    } else if (token === ")") {
+      if (stack.length > 1) {
+        const group = stack.pop()!;
+        pushItem(combineSequence(group.items, group.separators));
+      }
+    } else if (token === "," || token === ";") {
+      pending = { connective: pending?.connective ?? null, weak: true };
+      if (token === ";") pending.connective = "and";
+    } else if (token === "/") {
+      pending = { connective: "or", weak: false };
+    } else {
+      const connective = token as Connective;
+      pending = pending?.weak
+        ? { connective: pending.connective ?? connective, weak: true }
+        : { connective, weak: false };
+    }
+  }
+
+  // Close any unbalanced parentheses
+  while (stack.length > 1) {
+    const group = stack.pop()!;
+    pushItem(combineSequence(group.items, group.separators));
+  }
+
+  return combineSequence(stack[0].items, stack[0].separators);
+}
+
+/**
+ * Parse a Cornell prerequisite string
+ * Example: "Prerequisite: CS 2110 or CS 2112, and CS 2800 or equivalent. Corequisite: MATH 2940."
+ */
+export function parsePrerequisites(
+  raw: string | null | undefined
+): ParsedPrerequisites {
+  const text = raw || "";
+  const prerequisites: PrereqExpr[] = [];
+  const corequisites: PrereqExpr[] = [];
+  let allowsEquivalent = false;
+
+  // Split on labels; text before any label counts as prerequisites
+  const clauses: { label: string; body: string }[] = [];
+  const labels = Array.from(text.matchAll(LABEL_PATTERN));
+  if (labels.length === 0) {
+    clauses.push({ label: "prerequisite", body: text });
+  } else {
+    clauses.push({
+      label: "prerequisite",
+      body: text.slice(0, labels[0].index)
+    });
+    labels.forEach((label, idx) => {
+      const start = label.index! + label[0].length;
+      const end = idx + 1 < labels.length ? labels[idx + 1].index : text.length;
+      clauses.push({
+        label: label[1].toLowerCase(),
+        body: text.slice(start, end)
+      });
+    });
+  }
+
+  for (const { label, body } of clauses) {
+    // Only the first sentence of a clause describes requirements
+    const sentence = body.split(/\.(?=\s|$)/)[0];
+    const withoutEquivalent = sentence.replace(EQUIVALENT_PATTERN, () => {
+      allowsEquivalent = true;
+      return "";
+    });
+
+    const expr = parseClause(withoutEquivalent);
+    if (!expr) continue;
+
+    if (label.includes("corequisite")) {
+      corequisites.push(expr);
+    } else {
+      prerequisites.push(expr);
+    }
+  }
+
+  return {
+    prerequisites: combine("and", prerequisites),
+    corequisites: combine("and", corequisites),
+    allowsEquivalent,
+    raw: text
+  };
+}
+
+/**
+ * Return the part of an expression not satisfied by the given course codes, or null if satisfied
+ */
+export function unmetRequirements(
+  expr: PrereqExpr | null,
+  satisfied: Set<string>
+): PrereqExpr | null {
+  if (!expr) return null;
+
+  switch (expr.type) {
+    case "course":
+      return satisfied.has(expr.code) ? null : expr;
+    case "and":
+      return combine(
+        "and",
+        expr.items
+          .map((item) => unmetRequirements(item, satisfied))
+          .filter((item): item is PrereqExpr => item !== null)
+      );
+    case "or":
+      return expr.items.some((item) => !unmetRequirements(item, satisfied))
+        ? null
+        : expr;
+  }
+}
+
+/**
+ * Render an expression as readable text, e.g. "(CS 2110 or CS 2112) and CS 2800"
+ */
+export function formatPrereq(expr: PrereqExpr | null): string | null {
+  if (!expr) return null;
+  if (expr.type === "course") return expr.code;
+
+  return expr.items
+    .map((item) =>
+      item.type === "course" ? item.code : `(${formatPrereq(item)})`
+    )
+    .join(` ${expr.type} `);
+}
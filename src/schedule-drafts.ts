@@ -0,0 +1,240 @@
+/**
+ * Named schedule drafts
+ * A student can keep several drafts of a term's schedule ("Plan A", "Plan B").
+ * The active draft lives in user_schedules, so every tool that reads the
+ * schedule sees it; inactive drafts are kept in schedule_draft_courses and
+ * swapped in when activated.
+ */
+
+import {
+  DAY_CODES,
+  findConflicts,
+  minutesToTime,
+  type Conflict,
+  type Course,
+  type CourseWithMeetings
+} from "./course-helpers";
+
+/**
+ * Name given to the existing schedule when a student creates their first draft
+ */
+export const DEFAULT_DRAFT_NAME = "Main";
+
+export interface ScheduleDraft {
+  id: number;
+  name: string;
+  term: string;
+  active: boolean;
+  courseCount: number;
+}
+
+export interface ScheduleSummary {
+  sections: string[]; // e.g. "CS 2110 LEC 001"
+  credits: number;
+  daysOnCampus: string[]; // Day codes in week order
+  earliestStart: string | null;
+  latestEnd: string | null;
+  conflicts: Conflict[];
+}
+
+/**
+ * List a user's drafts for a term, creating the default draft for their
+ * existing schedule if they have none
+ */
+export async function listDrafts(
+  env: Env,
+  userId: string,
+  term: string
+): Promise<ScheduleDraft[]> {
+  await env.DB.prepare(
+    `INSERT INTO schedule_drafts (user_id, term, name, is_active)
+     SELECT ?, ?, ?, 1
+     WHERE NOT EXISTS (
+       SELECT 1 FROM schedule_drafts WHERE user_id = ? AND term = ?
+     )`
+  )
+    .bind(userId, term, DEFAULT_DRAFT_NAME, userId, term)
+    .run();
+
+  const result = await env.DB.prepare(
+    `SELECT d.id, d.name, d.term, d.is_active,
+            CASE WHEN d.is_active = 1
+              THEN (SELECT COUNT(*) FROM user_schedules us WHERE us.user_id = d.user_id AND us.term = d.term)
+              ELSE (SELECT COUNT(*) FROM schedule_draft_courses dc WHERE dc.draft_id = d.id)
+            END AS course_count
+     FROM schedule_drafts d
+     WHERE d.user_id = ? AND d.term = ?
+     ORDER BY d.created_at, d.id`
+  )
+    .bind(userId, term)
+    .all<{
+      id: number;
+      name: string;
+      term: string;
+      is_active: number;
+      course_count: number;
+    }>();
+
+  return result.results.map((row) => ({
+    id: row.id,
+    name: row.name,
+    term: row.term,
+    active: row.is_active === 1,
+    courseCount: row.course_count
+  }));
+}
+
+/**
+ * Find a draft by name, ignoring case
+ */
+export function findDraft(
+  drafts: ScheduleDraft[],
+  name: string
+): ScheduleDraft | undefined {
+  const wanted = name.trim().toLowerCase();
+  return drafts.find((draft) => draft.name.toLowerCase() === wanted);
+}
+
+/**
+ * Load the sections in a draft
+ */
+export async function loadDraftCourses(
+  env: Env,
+  userId: string,
+  draft: ScheduleDraft
+): Promise<Course[]> {
+  const query = draft.active
+    ? env.DB.prepare(
+        `SELECT c.* FROM user_schedules us
+         JOIN courses c ON c.id = us.course_id AND c.term = us.term
+         WHERE us.user_id = ? AND us.term = ?
+         ORDER BY c.subject, c.catalog_nbr, c.component`
+      ).bind(userId, draft.term)
+    : env.DB.prepare(
+        `SELECT c.* FROM schedule_draft_courses dc
+         JOIN courses c ON c.id = dc.course_id AND c.term = ?
+         WHERE dc.draft_id = ?
+         ORDER BY c.subject, c.catalog_nbr, c.component`
+      ).bind(draft.term, draft.id);
+
+  return (await query.all<Course>()).results;
+}
+
+/**
+ * Create an inactive draft, optionally copying another draft's sections
+ */
+export async function createDraft(
+  env: Env,
+  userId: string,
+  term: string,
+  name: string,
+  source?: ScheduleDraft
+): Promise<number> {
+  const draft = await env.DB.prepare(
+    `INSERT INTO schedule_drafts (user_id, term, name, is_active)
+     VALUES (?, ?, ?, 0)
+     RETURNING id`
+  )
+    .bind(userId, term, name)
+    .first<{ id: number }>();
+
+  if (source) {
+    const copy = source.active
+      ? env.DB.prepare(
+          `INSERT INTO schedule_draft_courses (draft_id, course_id, notes, added_at)
+           SELECT ?, course_id, notes, added_at FROM user_schedules
+           WHERE user_id = ? AND term = ?`
+        ).bind(draft!.id, userId, term)
+      : env.DB.prepare(
+          `INSERT INTO schedule_draft_courses (draft_id, course_id, notes, added_at)
+           SELECT ?, course_id, notes, added_at FROM schedule_draft_courses
+           WHERE draft_id = ?`
+        ).bind(draft!.id, source.id);
+    await copy.run();
+  }
+
+  return draft!.id;
+}
+
+/**
+ * Make a draft the active schedule
+ * The current schedule is saved back into the previously active draft, and the
+ * swap runs as one transaction
+ */
+export async function activateDraft(
+  env: Env,
+  userId: string,
+  target: ScheduleDraft,
+  current: ScheduleDraft
+): Promise<void> {
+  const { term } = target;
+
+  await env.DB.batch([
+    env.DB.prepare(
+      "DELETE FROM schedule_draft_courses WHERE draft_id = ?"
+    ).bind(current.id),
+    env.DB.prepare(
+      `INSERT INTO schedule_draft_courses (draft_id, course_id, notes, added_at)
+       SELECT ?, course_id, notes, added_at FROM user_schedules
+       WHERE user_id = ? AND term = ?`
+    ).bind(current.id, userId, term),
+    env.DB.prepare(
+      "DELETE FROM user_schedules WHERE user_id = ? AND term = ?"
+    ).bind(userId, term),
+    env.DB.prepare(
+      `INSERT INTO user_schedules (user_id, term, course_id, notes, added_at)
+       SELECT ?, ?, course_id, notes, added_at FROM schedule_draft_courses
+       WHERE draft_id = ?`
+    ).bind(userId, term, target.id),
+    env.DB.prepare(
+      "DELETE FROM schedule_draft_courses WHERE draft_id = ?"
+    ).bind(target.id),
+    env.DB.prepare(
+      `UPDATE schedule_drafts SET is_active = (id = ?)
+       WHERE user_id = ? AND term = ?`
+    ).bind(target.id, userId, term)
+  ]);
+}
+
+/**
+ * Summarize a draft for comparison: credits, days on campus, start and end
+ * times, and time conflicts
+ */
+export function summarizeSchedule(
+  courses: CourseWithMeetings[]
+): ScheduleSummary {
+  // Sections of one course (LEC + DIS) share its credits
+  const creditsByCourse = new Map<string, number>();
+  for (const course of courses) {
+    const code = `${course.subject} ${course.catalog_nbr}`;
+    creditsByCourse.set(
+      code,
+      Math.max(creditsByCourse.get(code) ?? 0, course.credits ?? 0)
+    );
+  }
+
+  const meetings = courses
+    .flatMap((course) => course.parsedMeetings)
+    .filter((meeting) => !meeting.tba);
+  const days = new Set(meetings.flatMap((meeting) => meeting.days));
+  const starts = meetings
+    .map((meeting) => meeting.startMinutes)
+    .filter((minutes): minutes is number => minutes !== null);
+  const ends = meetings
+    .map((meeting) => meeting.endMinutes)
+    .filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    sections: courses.map((course) =>
+      [course.subject, course.catalog_nbr, course.component, course.section]
+        .filter(Boolean)
+        .join(" ")
+    ),
+    credits: [...creditsByCourse.values()].reduce((sum, n) => sum + n, 0),
+    daysOnCampus: DAY_CODES.filter((day) => days.has(day)),
+    earliestStart:
+      starts.length > 0 ? minutesToTime(Math.min(...starts)) : null,
+    latestEnd: ends.length > 0 ? minutesToTime(Math.max(...ends)) : null,
+    conflicts: findConflicts(courses)
+  };
+}
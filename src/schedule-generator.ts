@@ -0,0 +1,254 @@
+/**
+ * Schedule generation
+ * Enumerates conflict-free section combinations for a set of courses and ranks them by preference
+ */
+
+import {
+  type CourseWithMeetings,
+  DAY_CODES,
+  formatMeetingTime,
+  parseDays,
+  meetingsConflict,
+  timeToMinutes
+} from "./course-helpers";
+import { sectionsCompatible, type SectionInfo } from "./course-components";
+
+/**
+ * A section with its meetings and its place in the course structure
+ */
+export type ScheduleSection = CourseWithMeetings & SectionInfo;
+
+/**
+ * Soft preferences used to rank generated schedules
+ */
+export interface SchedulePreferences {
+  earliestStart?: string; // e.g. "10:00AM"
+  latestEnd?: string; // e.g. "05:00PM"
+  daysOff?: string; // Day codes to keep free (e.g. "F")
+}
+
+/**
+ * A single conflict-free combination of sections
+ */
+export interface GeneratedSchedule {
+  sections: ScheduleSection[];
+  daysOnCampus: string;
+  violations: string[];
+  score: number;
+}
+
+/**
+ * Upper bound on sections tried across the search, so large course lists stay
+ * responsive even when most branches end in a conflict
+ */
+const MAX_SEARCH_STEPS = 50000;
+
+/**
+ * Check whether any meeting of one section overlaps any meeting of another
+ */
+function sectionsConflict(
+  section1: ScheduleSection,
+  section2: ScheduleSection
+): boolean {
+  return section1.parsedMeetings.some((meeting1) =>
+    section2.parsedMeetings.some((meeting2) =>
+      meetingsConflict(meeting1, meeting2)
+    )
+  );
+}
+
+/**
+ * Whether two sections belong to the same course
+ */
+function sameCourse(
+  section1: ScheduleSection,
+  section2: ScheduleSection
+): boolean {
+  return (
+    section1.subject === section2.subject &&
+    section1.catalog_nbr === section2.catalog_nbr
+  );
+}
+
+/**
+ * Split one course's sections into the components a student must take (LEC, DIS, LAB, ...)
+ */
+function groupByComponent(sections: ScheduleSection[]): ScheduleSection[][] {
+  const groups = new Map<string, ScheduleSection[]>();
+
+  for (const section of sections) {
+    const component = section.component || "LEC";
+    const group = groups.get(component) || [];
+    group.push(section);
+    groups.set(component, group);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Score a schedule against the student's preferences (lower is better)
+ * Each violated preference costs more than an extra day on campus
+ */
+function scoreSchedule(
+  sections: ScheduleSection[],
+  preferences: SchedulePreferences
+): Omit<GeneratedSchedule, "sections"> {
+  const violations: string[] = [];
+  const days = new Set<string>();
+  const earliest = preferences.earliestStart
+    ? timeToMinutes(preferences.earliestStart)
+    : null;
+  const latest = preferences.latestEnd
+    ? timeToMinutes(preferences.latestEnd)
+    : null;
+  const daysOff = parseDays(preferences.daysOff || "") ?? [];
+
+  for (const section of sections) {
+    const label = `${section.subject} ${section.catalog_nbr} ${section.component} ${section.section}`;
+
+    for (const meeting of section.parsedMeetings) {
+      if (meeting.tba || meeting.startMinutes === null) continue;
+
+      const time = formatMeetingTime(meeting);
+
+      for (const day of meeting.days) {
+        days.add(day);
+      }
+
+      if (earliest !== null && meeting.startMinutes < earliest) {
+        violations.push(
+          `${label} starts before ${preferences.earliestStart} (${time})`
+        );
+      }
+      if (
+        latest !== null &&
+        meeting.endMinutes !== null &&
+        meeting.endMinutes > latest
+      ) {
+        violations.push(
+          `${label} ends after ${preferences.latestEnd} (${time})`
+        );
+      }
+      const blockedDays = meeting.days.filter((day) => daysOff.includes(day));
+      if (blockedDays.length > 0) {
+        violations.push(`${label} meets on ${blockedDays.join("")} (${time})`);
+      }
+    }
+  }
+
+  const daysOnCampus = Array.from(days)
+    .sort((a, b) => DAY_CODES.indexOf(a) - DAY_CODES.indexOf(b))
+    .join("");
+
+  return {
+    daysOnCampus,
+    violations,
+    score: violations.length * 10 + daysOnCampus.length
+  };
+}
+
+/**
+ * Enumerate conflict-free schedules that take one linked section of every
+ * component of every course, keeping the best `limit` by score
+ * sectionsByCourse holds all sections for each requested course. Each slot
+ * tries its sections in order of preference, and branches whose partial score
+ * can't beat the kept schedules are pruned, so stopping at MAX_SEARCH_STEPS
+ * only limits how far the search looked past the best candidates
+ */
+export function generateSchedules(
+  sectionsByCourse: ScheduleSection[][],
+  preferences: SchedulePreferences,
+  limit: number
+): { schedules: GeneratedSchedule[]; examined: number; truncated: boolean } {
+  // Violations and days add up across sections, giving a lower bound on the
+  // score of any schedule that extends a partial one
+  const costs = new Map<
+    ScheduleSection,
+    { violations: number; days: string[] }
+  >();
+  for (const section of sectionsByCourse.flat()) {
+    const { violations, daysOnCampus } = scoreSchedule([section], preferences);
+    costs.set(section, {
+      violations: violations.length,
+      days: parseDays(daysOnCampus) ?? []
+    });
+  }
+
+  const slots = sectionsByCourse
+    .flatMap(groupByComponent)
+    .map((slot) =>
+      [...slot].sort(
+        (a, b) => costs.get(a)!.violations - costs.get(b)!.violations
+      )
+    );
+  // Fill the most constrained slots first so conflicts prune early
+  slots.sort((a, b) => a.length - b.length);
+
+  const schedules: GeneratedSchedule[] = []; // Best first, at most limit
+  const chosen: ScheduleSection[] = [];
+  const dayCounts = new Map<string, number>();
+  let examined = 0;
+  let steps = 0;
+  let truncated = false;
+
+  const search = (slotIdx: number, violations: number) => {
+    const worstKept =
+      schedules.length < limit
+        ? Number.POSITIVE_INFINITY
+        : schedules[schedules.length - 1].score;
+    if (violations * 10 + dayCounts.size >= worstKept) return;
+
+    if (slotIdx === slots.length) {
+      examined++;
+      const sections = [...chosen];
+      const schedule = { sections, ...scoreSchedule(sections, preferences) };
+      const position = schedules.findIndex((s) => s.score > schedule.score);
+      schedules.splice(
+        position === -1 ? schedules.length : position,
+        0,
+        schedule
+      );
+      if (schedules.length > limit) schedules.pop();
+      return;
+    }
+
+    for (const candidate of slots[slotIdx]) {
+      if (steps >= MAX_SEARCH_STEPS) {
+        truncated = true;
+        return;
+      }
+      steps++;
+
+      if (
+        chosen.some(
+          (section) =>
+            sectionsConflict(section, candidate) ||
+            (sameCourse(section, candidate) &&
+              !sectionsCompatible(section, candidate))
+        )
+      ) {
+        continue;
+      }
+
+      const cost = costs.get(candidate)!;
+      chosen.push(candidate);
+      for (const day of cost.days) {
+        dayCounts.set(day, (dayCounts.get(day) ?? 0) + 1);
+      }
+
+      search(slotIdx + 1, violations + cost.violations);
+
+      for (const day of cost.days) {
+        const count = dayCounts.get(day)! - 1;
+        if (count === 0) dayCounts.delete(day);
+        else dayCounts.set(day, count);
+      }
+      chosen.pop();
+    }
+  };
+
+  search(0, 0);
+
+  return { schedules, examined, truncated };
+}
@@ -1,4 +1,9 @@
-import { routeAgentRequest, type Schedule } from "agents";
+import {
+  routeAgentRequest,
+  type Schedule,
+  type Connection,
+  type ConnectionContext
+} from "agents";
 
 import { getSchedulePrompt } from "agents/schedule";
 
@@ -11,24 +16,34 @@ import {
   createUIMessageStream,
   convertToModelMessages,
   createUIMessageStreamResponse,
-  type ToolSet
+  type LanguageModel,
+  type ToolSet,
+  type UIMessage
 } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { processToolCalls, cleanupMessages } from "./utils";
+import { z } from "zod/v3";
 import { tools, executions } from "./tools";
-// import { env } from "cloudflare:workers";
-
-const model = openai("gpt-4o-mini");
-// Cloudflare AI Gateway
-// const openai = createOpenAI({
-//   apiKey: env.OPENAI_API_KEY,
-//   baseURL: env.GATEWAY_BASE_URL,
-// });
+import {
+  findWindowStart,
+  summarizeMessages,
+  formatSummaryContext,
+  type ConversationSummary
+} from "./conversation-memory";
+import {
+  EMPTY_WORKING_SET,
+  formatWorkingSetContext,
+  updateWorkingSet
+} from "./working-set";
+import type { Course } from "./course-helpers";
+import type { ChatState } from "./shared";
+import { createChatModel, resolveProviderConfig } from "./llm-provider";
 
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
-export class Chat extends AIChatAgent<Env> {
+export class Chat extends AIChatAgent<Env, ChatState> {
+  initialState: ChatState = { workingSet: EMPTY_WORKING_SET };
+
   /**
    * Get the environment bindings
    */
@@ -44,21 +59,196 @@ export class Chat extends AIChatAgent<Env> {
   }
 
   /**
-   * Apply message window to keep only recent context
-   * Keeps last 10 messages only - no summarization
+   * Record courses a search or details tool just surfaced as the latest working set
+   * Persisted in agent state, so ordinal references survive the message window and reloads
    */
-  private async applyMessageWindow(messages: any[]): Promise<any[]> {
-    const MESSAGE_WINDOW = 10;
+  rememberCourses(source: string, query: string, courses: Course[]) {
+    this.setState({
+      ...this.state,
+      workingSet: updateWorkingSet(
+        this.state.workingSet,
+        source,
+        query,
+        courses
+      )
+    });
+  }
 
-    if (messages.length <= MESSAGE_WINDOW) {
-      return messages;
+  /**
+   * Create the Durable Object table that holds undelivered notifications
+   */
+  private ensureNotificationTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS pending_notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )`;
+  }
+
+  /**
+   * Queue a notification (e.g. a schedule change) for the user
+   * Called over RPC after ingestion; delivered now if the user is connected, otherwise on their next connect
+   */
+  async enqueueNotification(message: string): Promise<void> {
+    this.ensureNotificationTable();
+    this.sql`INSERT INTO pending_notifications (message, created_at)
+      VALUES (${message}, ${Date.now()})`;
+
+    // The message is queued either way; if posting fails it goes out on the next connect
+    if ([...this.getConnections()].length > 0) {
+      try {
+        await this.deliverNotifications();
+      } catch (error) {
+        console.error("[Chat] Failed to deliver notifications:", error);
+      }
     }
+  }
 
-    const recentMessages = messages.slice(-MESSAGE_WINDOW);
-    console.log(
-      `Message window applied: ${messages.length} → ${recentMessages.length} messages`
-    );
-    return recentMessages;
+  /**
+   * Post queued notifications into the chat as assistant messages
+   * Rows are only removed from the queue after the messages are saved
+   */
+  private async deliverNotifications(): Promise<void> {
+    this.ensureNotificationTable();
+    const pending = this.sql<{
+      id: number;
+      message: string;
+      created_at: number;
+    }>`SELECT * FROM pending_notifications ORDER BY id`;
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    await this.persistMessages([
+      ...this.messages,
+      ...pending.map((notification) => ({
+        id: generateId(),
+        role: "assistant" as const,
+        parts: [{ type: "text" as const, text: notification.message }],
+        metadata: {
+          createdAt: new Date(notification.created_at)
+        }
+      }))
+    ]);
+
+    const lastId = pending[pending.length - 1].id;
+    this.sql`DELETE FROM pending_notifications WHERE id <= ${lastId}`;
+  }
+
+  /**
+   * Schedule a re-check of the user's watched sections
+   * Called over RPC after an ingestion changes the status of a watched section
+   */
+  async scheduleWatchCheck(): Promise<void> {
+    await this.schedule(0, "checkWatches");
+  }
+
+  /**
+   * Scheduled callback: post a chat message for watched sections that opened up or moved to waitlist
+   */
+  async checkWatches(_payload: unknown, task: Schedule<string>) {
+    const { checkWatchedSections } = await import("./watches");
+    const updates = await checkWatchedSections(this.env, this.getUserId());
+
+    if (updates.length > 0) {
+      await this.executeTask(
+        `Seat availability changed for sections on your watchlist:\n${updates.map((update) => `- ${update}`).join("\n")}`,
+        task
+      );
+    }
+  }
+
+  /**
+   * Deliver anything queued while the user was away
+   */
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    await this.deliverNotifications();
+    return super.onConnect(connection, ctx);
+  }
+
+  /**
+   * Load the rolling conversation summary from the Durable Object's SQLite
+   */
+  private loadConversationSummary(): ConversationSummary | null {
+    this.sql`CREATE TABLE IF NOT EXISTS conversation_summary (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      summary TEXT NOT NULL,
+      course_refs TEXT NOT NULL,
+      last_message_id TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`;
+    const [row] = this.sql<{
+      summary: string;
+      course_refs: string;
+      last_message_id: string;
+    }>`SELECT summary, course_refs, last_message_id FROM conversation_summary WHERE id = 1`;
+
+    return row
+      ? {
+          summary: row.summary,
+          courseRefs: JSON.parse(row.course_refs) as string[],
+          lastMessageId: row.last_message_id
+        }
+      : null;
+  }
+
+  private saveConversationSummary(summary: ConversationSummary | null) {
+    if (!summary) {
+      this.sql`DELETE FROM conversation_summary`;
+      return;
+    }
+
+    this.sql`INSERT OR REPLACE INTO conversation_summary
+      (id, summary, course_refs, last_message_id, updated_at)
+      VALUES (1, ${summary.summary}, ${JSON.stringify(summary.courseRefs)}, ${summary.lastMessageId}, ${Date.now()})`;
+  }
+
+  /**
+   * Apply a token-budgeted message window
+   * Messages that fall out of the window are folded into a persisted rolling summary,
+   * which is returned so it can be injected ahead of the window
+   */
+  private async applyMessageWindow(
+    model: LanguageModel,
+    messages: UIMessage[]
+  ): Promise<{ messages: UIMessage[]; summary: ConversationSummary | null }> {
+    let summary = this.loadConversationSummary();
+    const windowStart = findWindowStart(messages);
+
+    // Find where the summary left off; start over if the chat was cleared
+    let summarizedUpTo = summary
+      ? messages.findIndex((message) => message.id === summary!.lastMessageId) +
+        1
+      : 0;
+    if (summary && summarizedUpTo === 0) {
+      summary = null;
+      this.saveConversationSummary(null);
+    }
+    summarizedUpTo = Math.min(summarizedUpTo, windowStart);
+
+    const evicted = messages.slice(summarizedUpTo, windowStart);
+    if (evicted.length > 0) {
+      try {
+        summary = await summarizeMessages(model, summary, evicted);
+        this.saveConversationSummary(summary);
+        console.log(
+          `Summarized ${evicted.length} messages evicted from the window`
+        );
+      } catch (error) {
+        // Keep the previous summary; these messages are retried next turn
+        console.error("Failed to summarize evicted messages:", error);
+      }
+    }
+
+    const recentMessages = messages.slice(windowStart);
+    if (windowStart > 0) {
+      console.log(
+        `Message window applied: ${messages.length} → ${recentMessages.length} messages`
+      );
+    }
+
+    return { messages: recentMessages, summary };
   }
 
   /**
@@ -72,6 +262,8 @@ export class Chat extends AIChatAgent<Env> {
     //   "https://path-to-mcp-server/sse"
     // );
 
+    const model = createChatModel(this.env);
+
     // Use our course search tools
     const allTools = {
       ...tools
@@ -92,7 +284,11 @@ export class Chat extends AIChatAgent<Env> {
         });
 
         // Apply message window to keep recent context and summarize older messages
-        const finalMessages = await this.applyMessageWindow(processedMessages);
+        const { messages: finalMessages, summary } =
+          await this.applyMessageWindow(model, processedMessages);
+        const workingSetContext = formatWorkingSetContext(
+          this.state.workingSet
+        );
 
         const result = streamText({
           system: `You are a Cornell course scheduling assistant. You help students find and organize their class schedules.
@@ -108,12 +304,31 @@ CHOOSING THE RIGHT SEARCH TOOL:
 - Use advancedCourseSearch (NOT searchCourses) when users ask about:
   * Distribution requirements (e.g., "GLC-AS", "MQR-AS", "CA-AG")
   * Special attributes like FWS (First-Year Writing Seminar)
-  * Specific filters: subject, credits, day of week, instructor, catalog number ranges
+  * Specific filters: subject, credits, days, times, meeting length, instructor, catalog number ranges
   * Example: "show me FWS courses" → use advancedCourseSearch with distributionReq parameter
   * Example: "find MQR-AS courses on Tuesdays" → use advancedCourseSearch with distributionReq and dayOfWeek
+  * Example: "CS classes only on Tuesday/Thursday" → advancedCourseSearch with { subject: "CS", dayOfWeek: "TR", excludeDays: "MWF" }
+  * Example: "no Friday classes, nothing before 10" → excludeDays: "F", earliestStart: "10:00AM"
+  * Example: "afternoon classes after 2PM" → earliestStart: "02:00PM"; "short 50-minute meetings" → maxDuration: 50
+  * dayOfWeek only requires a meeting on those days; add excludeDays for "only" questions. Explain the filters you used from the filters field of the result
 - Use searchCourses for natural language/semantic queries:
   * Example: "find machine learning classes" → use searchCourses
   * Example: "courses about philosophy" → use searchCourses
+  * Example: "CS 4780" or "tell me about cs4780" → use searchCourses (course codes return exact matches)
+  * Example: "courses taught by Kleinberg" → use searchCourses (instructor names are keyword-matched)
+- When a topic comes with filters, use searchCourses with both the query and the filters (same filter parameters as advancedCourseSearch):
+  * Example: "machine learning courses in ORIE at the 4000 level" → searchCourses with { query: "machine learning", subject: "ORIE", catalogNbrStart: "4" }
+  * Example: "3-credit philosophy courses that meet on Fridays" → searchCourses with { query: "philosophy", credits: 3, dayOfWeek: "F" }
+- Use findCoursesInFreeTime when users ask what fits around their schedule ("what can I take Tuesday afternoon?"). dayOfWeek only requires a meeting on a day; findCoursesInFreeTime keeps every meeting inside the given days and hours and out of the student's existing classes:
+  * Example: "what can I take Tuesday afternoon?" → findCoursesInFreeTime with { days: "T", startTime: "12:00PM", endTime: "05:00PM" }
+  * Example: "any MQR-AS classes that fit my schedule?" → findCoursesInFreeTime with { distributionReq: "MQR-AS" }
+
+TERMS (SEMESTERS):
+- The catalog holds multiple terms, identified by codes like FA26 (Fall 2026), SP27 (Spring 2027), SU27 (Summer 2027), WI27 (Winter 2027)
+- The current term is ${this.env.CURRENT_TERM}. Every search and schedule tool defaults to it when no term is given
+- When the student talks about another semester ("next semester", "next spring"), pass the matching term code to the tools
+- Each term has its own schedule, so planning next semester never changes this semester's schedule
+- Use getCourseOfferings to answer questions like "was this offered last spring?" or "is this usually taught in the fall?"
 
 IMPORTANT: FWS (First-Year Writing Seminar) COURSES:
 - FWS is NOT a subject code - it's a course designation that appears in course titles
@@ -149,19 +364,71 @@ IMPORTANT INSTRUCTIONS:
 - If you ask "A or B?" and the student says "yes", pick the most reasonable option based on context
 - Avoid asking yes/no questions when you need a specific choice - be direct
 
+COURSE CHANGES:
+- When the student asks whether anything changed with their classes (times, rooms, instructors, closures), call getCourseChanges without a course to check their schedule
+- Use getCourseChanges with a courseCode when they ask about changes to a specific course
+- Earlier assistant messages starting with 📣 are automatic notifications about schedule changes; if the student follows up, use getCourseChanges for details and help them find an alternative section if theirs closed
+- Describe changes concretely, e.g. "CS 3110's lecture moved from TR 10:10AM-11:25AM to MW 10:10AM-11:25AM since you added it"
+
+SEAT WATCHLIST:
+- When a section the student wants is closed or waitlisted, offer to watch it; call watchCourse with its course ID when they agree
+- Use unwatchCourse when they no longer want updates
+- A user message starting with "Running scheduled task: Seat availability changed" is a watchlist update: tell the student which sections opened up or moved to waitlist and offer to add open ones to their schedule
+
+COMPLETED COURSES:
+- When the student mentions courses they've already taken, save them with addCompletedCourse
+- When the student pastes a transcript, pass the text unchanged to importTranscript
+- Use listCompletedCourses when they ask what you have on record
+- Search results mark courses the student has completed with completed: true; don't recommend those, and set hideCompleted when they only want courses they haven't taken
+
+PREREQUISITES AND ELIGIBILITY:
+- Before adding a course with addCourseToSchedule, call checkEligibility; it uses the student's saved completed courses automatically
+- If no completed courses are saved and the course lists prerequisites, ask what they've taken before adding it
+- If checkEligibility reports missing prerequisites, warn the student and list what is missing; if allowsEquivalent is true, mention that equivalent coursework or instructor permission may be accepted
+- Missing corequisites can be fixed by adding those courses to the same term's schedule
+
+DEGREE PROGRESS:
+- When the student asks what they still need for their major or minor, call checkDegreeProgress with the program; call it without one to see which programs are available
+- Requirements met only by scheduled courses have plannedSatisfied: true but satisfied: false; say they will be complete once those courses are finished
+- For each remaining requirement, suggest a few of its candidates and offer to check eligibility or add them
+- If completed courses haven't been saved, ask what they've taken (or for a transcript) before judging progress
+
+SCHEDULE DRAFTS:
+- When the student wants to try an alternative schedule ("Plan B", "what if I took X instead"), create a draft with createScheduleDraft, cloning the current draft when the alternative only changes a few courses
+- addCourseToSchedule, removeCourseFromSchedule, viewMySchedule and the other schedule tools work on the active draft; say which draft you are editing when the student has more than one
+- Use activateScheduleDraft to switch drafts, and listScheduleDrafts when they ask what drafts they have
+- When they ask which draft is better, call compareSchedules and summarize the differences in credits, days on campus, earliest start and conflicts
+
+MULTI-SEMESTER PLANS:
+- When the student wants to plan future semesters or a four-year plan, create it with createPlan (8 terms unless they say otherwise)
+- Place courses into future terms with addCourseToPlan; the current term is their schedule, so add sections there with addCourseToSchedule
+- Show the plan with viewPlan, keeping its markdown table exactly as returned; use format "grid" when they want it laid out by year
+- Report any issues addCourseToPlan or viewPlan return (prerequisites planned too late, terms over the credit limit) and suggest which term to move a course to
+
+GENERATING SCHEDULES:
+- When a student lists several courses and wants a schedule that works (e.g., "make me a schedule with CS 2110, MATH 2940 and PHYS 2213"), use generateSchedules
+- Pass time preferences through earliestStart, latestEnd and daysOff (e.g., "no classes before 10AM" → earliestStart: "10:00AM", "Fridays off" → daysOff: "F")
+- Present the top-ranked schedules with their sections and meeting times, and mention any preference that could not be met
+- Once the student picks a schedule, add each of its courseIds with addCourseToSchedule
+
+EXPORTING SCHEDULES:
+- When the student wants their schedule in Google Calendar, Apple Calendar, Outlook or their phone, call exportScheduleICS
+- Keep the download link from the tool response exactly as provided, and tell them to open the file or import it from their calendar app
+
 HANDLING COURSE COMPONENTS (Discussions, Labs, etc.):
-- When a user wants to add a course to their schedule, ALWAYS check if the course has multiple components (e.g., LEC + DIS, LEC + LAB)
-- Use getCourseDetails to see all available sections and components for the course
-- If the course has discussion sections (DIS) or lab sections (LAB) in addition to lecture (LEC):
-  * Show the user ALL available options with their meeting times
-  * Ask the user which specific section(s) they want to add
-  * Wait for their response before adding to the schedule
+- Many courses require a section of several components (e.g., LEC + DIS, LEC + LAB), and addCourseToSchedule only adds complete enrollments
+- If addCourseToSchedule returns status "needs_section_choice":
+  * Show the user the options for each missing component with their meeting times, noting any that are closed or conflict with their schedule
+  * Ask which section(s) they want and wait for their response
   * Example: "CS 2110 has a lecture and several discussion sections. Here are the discussion options: [list them]. Which discussion section would you like?"
+  * Then call addCourseToSchedule again with the same courseId and the chosen sections in withSections
 - Only add the specific course IDs that the user confirms
-- If the user doesn't specify which discussion/lab section, DO NOT add the course until they clarify
+- To drop only part of a course ("just my discussion"), call removeCourseFromSchedule with the course code and component; pass replaceWith to switch to another section in one step, and mention any warning about a missing component. A replacement that conflicts comes back as a preview; show the conflicts and only repeat the call with confirm: true if the student accepts
+- When the user wants a different discussion, lab or lecture time, call swapSection without targetSection to list sections that fit, then with targetSection to preview conflicts. Only pass confirm: true after the student accepts the preview
+- Use validateSchedule when the user asks whether their schedule is complete or ready to enroll, and offer to fix any course missing a discussion or lab
 
 ${getSchedulePrompt({ date: new Date() })}
-`,
+${summary ? `\n${formatSummaryContext(summary)}\n` : ""}${workingSetContext ? `\n${workingSetContext}\n` : ""}`,
 
           messages: await convertToModelMessages(finalMessages),
           model,
@@ -215,29 +482,248 @@ ${getSchedulePrompt({ date: new Date() })}
  * Worker entry point that routes incoming requests to the appropriate handler
  */
 export default {
-  async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext) {
     const url = new URL(request.url);
 
-    if (url.pathname === "/check-open-ai-key") {
-      const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
-      return Response.json({
-        success: hasOpenAIKey
+    // Reports the active LLM provider and whether its configuration is complete
+    if (url.pathname === "/health") {
+      try {
+        const { provider, model, missing } = resolveProviderConfig(env);
+        return Response.json({
+          ok: missing.length === 0,
+          provider,
+          model,
+          credentialsSet: missing.length === 0,
+          missing
+        });
+      } catch (error) {
+        return Response.json(
+          { ok: false, error: String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Stored schedule calendars rendered by viewMySchedule
+    const calendarMatch = url.pathname.match(
+      /^\/calendar\/([^/]+)\/([0-9a-f]+)\.svg$/
+    );
+    if (calendarMatch && request.method === "GET") {
+      const { getStoredSVGCalendar } = await import("./calendar-svg");
+      const [, userId, hash] = calendarMatch;
+      const svg = await getStoredSVGCalendar(env, userId, hash);
+
+      if (!svg) {
+        return new Response("Not found", { status: 404 });
+      }
+
+      // Content-addressed, so the image for a given hash never changes
+      return new Response(svg, {
+        headers: {
+          "Content-Type": "image/svg+xml",
+          "Cache-Control": "public, max-age=31536000, immutable"
+        }
       });
     }
 
-    // Course ingestion endpoint
-    if (url.pathname === "/ingest-courses" && request.method === "POST") {
-      const { ingestCourses } = await import("./ingestion");
-      const courses = await request.json();
+    // iCalendar export of a user's schedule, linked by exportScheduleICS
+    const icsMatch = url.pathname.match(/^\/schedule\/([^/]+)\.ics$/);
+    if (icsMatch && request.method === "GET") {
+      const { resolveTerm } = await import("./course-helpers");
+      const { getAcademicTerm } = await import("./academic-calendar");
+      const { buildScheduleICS } = await import("./ical");
+      const [, userId] = icsMatch;
+
+      let term: string;
+      try {
+        term = resolveTerm(env, url.searchParams.get("term") || undefined);
+      } catch (error) {
+        return new Response(String(error), { status: 400 });
+      }
+
+      const calendar = getAcademicTerm(term);
+      if (!calendar) {
+        return new Response(`No academic calendar configured for ${term}`, {
+          status: 404
+        });
+      }
 
-      const result = await ingestCourses(env, courses as any);
+      const { ics } = await buildScheduleICS(env, userId, calendar);
 
-      return Response.json(result);
+      return new Response(ics, {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `attachment; filename="schedule-${term}.ics"`,
+          "Cache-Control": "no-store"
+        }
+      });
     }
-    if (!process.env.OPENAI_API_KEY) {
-      console.error(
-        "OPENAI_API_KEY is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret bulk .dev.vars` to upload it to production"
-      );
+
+    // Ingestion endpoints require an admin bearer token (see src/admin-auth.ts)
+    if (
+      url.pathname === "/ingest-courses" ||
+      url.pathname === "/ingest-requirements" ||
+      url.pathname.startsWith("/ingest-jobs")
+    ) {
+      const { authenticateAdmin, unauthorizedResponse } =
+        await import("./admin-auth");
+      const admin = await authenticateAdmin(request, env);
+      if (!admin) {
+        console.warn(
+          `[ingest] Rejected unauthenticated ${request.method} ${url.pathname}`
+        );
+        return unauthorizedResponse();
+      }
+
+      const ip = request.headers.get("CF-Connecting-IP");
+      const { createIngestJob, getIngestJob, recordIngestAudit } =
+        await import("./ingest-jobs");
+
+      // Create an ingestion job that several /ingest-courses batches report into
+      if (url.pathname === "/ingest-jobs" && request.method === "POST") {
+        const body = z
+          .object({
+            term: z.string().max(16).optional(),
+            total: z.number().int().min(1).optional()
+          })
+          .safeParse(await request.json().catch(() => null));
+        if (!body.success) {
+          return Response.json(
+            { error: "Expected a JSON body like { term?, total? }" },
+            { status: 400 }
+          );
+        }
+
+        const job = await createIngestJob(
+          env,
+          body.data.term || env.CURRENT_TERM,
+          body.data.total ?? null
+        );
+        await recordIngestAudit(env, {
+          admin,
+          action: "create_job",
+          jobId: job.id,
+          terms: [job.term],
+          ip
+        });
+
+        return Response.json(job, { status: 201 });
+      }
+
+      // Ingestion job progress
+      const jobMatch = url.pathname.match(/^\/ingest-jobs\/([^/]+)$/);
+      if (jobMatch && request.method === "GET") {
+        const job = await getIngestJob(env, jobMatch[1]);
+
+        if (!job) {
+          return Response.json({ error: "Job not found" }, { status: 404 });
+        }
+
+        return Response.json(job);
+      }
+
+      // Course ingestion endpoint
+      // Batches join an existing job via ?jobId=; otherwise each request is its own job
+      if (url.pathname === "/ingest-courses" && request.method === "POST") {
+        const { ingestCourses, parseIngestRequest } =
+          await import("./ingestion");
+        const payload = await parseIngestRequest(request);
+        if ("error" in payload) {
+          return Response.json(
+            { error: payload.error },
+            { status: payload.status }
+          );
+        }
+
+        const { courses } = payload;
+        const jobId = url.searchParams.get("jobId");
+        const job = jobId
+          ? await getIngestJob(env, jobId)
+          : await createIngestJob(
+              env,
+              url.searchParams.get("term") || env.CURRENT_TERM,
+              courses.length
+            );
+
+        if (!job) {
+          return Response.json({ error: "Job not found" }, { status: 404 });
+        }
+
+        const audit = {
+          admin,
+          action: "ingest" as const,
+          jobId: job.id,
+          terms: [...new Set(courses.map((course) => course.term || job.term))],
+          courseIds: courses.map((course) => course.id),
+          ip
+        };
+
+        try {
+          const result = await ingestCourses(env, courses, job);
+
+          // Tell students about changes to sections in their schedules or watchlists
+          const { notifyScheduleChanges } = await import("./notifications");
+          const { notifyWatchers } = await import("./watches");
+          ctx.waitUntil(
+            Promise.all([notifyScheduleChanges(env), notifyWatchers(env)])
+          );
+          await recordIngestAudit(env, {
+            ...audit,
+            succeeded: result.success,
+            skipped: result.skipped,
+            failed: result.failed
+          });
+
+          return Response.json(result);
+        } catch (error) {
+          await recordIngestAudit(env, { ...audit, failed: courses.length });
+
+          return Response.json(
+            { jobId: job.id, error: `Ingestion failed: ${error}` },
+            { status: 500 }
+          );
+        }
+      }
+
+      // Degree requirement definitions (see src/degree-requirements.ts)
+      if (
+        url.pathname === "/ingest-requirements" &&
+        request.method === "POST"
+      ) {
+        const { degreeProgramsPayloadSchema, saveDegreePrograms } =
+          await import("./degree-requirements");
+        const body = degreeProgramsPayloadSchema.safeParse(
+          await request.json().catch(() => null)
+        );
+        if (!body.success) {
+          const issues = body.error.issues
+            .slice(0, 20)
+            .map(
+              (issue) => `${issue.path.join(".") || "body"}: ${issue.message}`
+            );
+          return Response.json(
+            { error: `Invalid requirement data: ${issues.join("; ")}` },
+            { status: 400 }
+          );
+        }
+
+        const { programs } = body.data;
+        await saveDegreePrograms(env, programs);
+        await recordIngestAudit(env, {
+          admin,
+          action: "ingest_requirements",
+          jobId: null,
+          succeeded: programs.length,
+          ip
+        });
+
+        return Response.json({
+          success: programs.length,
+          programs: programs.map((program) => program.id)
+        });
+      }
+
+      return Response.json({ error: "Not found" }, { status: 404 });
     }
 
     // Let Cloudflare Agents framework handle routing with the 'name' parameter (represents the UserID)
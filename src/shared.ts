@@ -3,3 +3,28 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+// A course surfaced to the student by searchCourses, advancedCourseSearch or getCourseDetails
+export interface WorkingSetCourse {
+  courseId: string;
+  term: string;
+  code: string; // e.g. "CS 2110"
+  title: string;
+  component: string | null;
+  section: string | null;
+  meetings: string[];
+  status: string | null;
+}
+
+// Courses discussed in the conversation; "the second one" refers to results[1]
+export interface WorkingSet {
+  source: string | null; // Tool that produced the latest results
+  query: string | null; // What the latest results were for
+  results: WorkingSetCourse[];
+  earlier: WorkingSetCourse[]; // Previously surfaced courses, most recent first
+}
+
+// Chat agent state, synced to the UI
+export interface ChatState {
+  workingSet: WorkingSet;
+}
@@ -10,85 +10,176 @@ import { getCurrentAgent } from "agents";
 import {
   removeCourseEmbeddings,
   meetingsConflict,
-  findConflicts
+  findConflicts,
+  attachMeetings,
+  parseMeetingsByDay,
+  formatTextSchedule,
+  resolveTerm,
+  termSortKey,
+  parseCourseCode,
+  flagCompletedCourses,
+  getCompletedCourseCodes,
+  parseDays,
+  dayMask,
+  timeToMinutes,
+  DAY_CODES,
+  STATUS_LABELS,
+  type Course,
+  type CourseWithMeetings
 } from "./course-helpers";
-import { generateSVGCalendar, uploadSVGImage } from "./calendar-svg";
+import { generateSVGCalendar, storeSVGCalendar } from "./calendar-svg";
+import { buildScheduleICS } from "./ical";
+import { getAcademicTerm } from "./academic-calendar";
+import {
+  generateSchedules as enumerateSchedules,
+  type ScheduleSection
+} from "./schedule-generator";
+import {
+  parsePrerequisites,
+  unmetRequirements,
+  formatPrereq,
+  type ParsedPrerequisites
+} from "./prerequisites";
+import { parseTranscript } from "./transcript";
+import { hybridSearch } from "./hybrid-search";
+import { describeCourseChange, type CourseChangeRow } from "./course-changes";
+import {
+  courseFilterFields,
+  buildSqlFilters,
+  TIME_PATTERN
+} from "./course-filters";
+import {
+  evaluateDegreeProgress,
+  findDegreeProgram,
+  findRequirementCandidates,
+  listDegreePrograms,
+  loadTakenCourses
+} from "./degree-requirements";
+import {
+  DEFAULT_MAX_CREDITS,
+  DEFAULT_PLAN_TERMS,
+  formatPlanGrid,
+  formatPlanTable,
+  getAcademicPlan,
+  loadPlanTerms,
+  lookupCatalogCourses,
+  planTermCodes,
+  validatePlan
+} from "./academic-plan";
+import {
+  activateDraft,
+  createDraft,
+  findDraft,
+  listDrafts,
+  loadDraftCourses,
+  summarizeSchedule
+} from "./schedule-drafts";
+import {
+  checkEnrollment,
+  loadSectionChoices,
+  sectionLabel,
+  sectionOptions,
+  sectionsCompatible,
+  sectionsThatFit,
+  type SectionInfo
+} from "./course-components";
+import {
+  completeFreeTimeCourses,
+  computeFreeWindows,
+  fitsFreeWindows,
+  formatFreeWindows
+} from "./free-time";
 
 /**
- * Search for Cornell courses using semantic search
+ * Search for Cornell courses using hybrid keyword + semantic search
  */
 const searchCourses = tool({
   description:
-    "Search for Cornell courses using natural language. Returns relevant courses based on semantic similarity.",
+    "Search for Cornell courses using natural language, course codes (e.g., 'CS 4780') or instructor names. Combines keyword matching with semantic similarity; course codes return exact matches. Accepts the same subject, level, credits, distribution and day filters as advancedCourseSearch.",
   inputSchema: z.object({
     query: z
       .string()
       .describe(
-        "Natural language search query (e.g., 'machine learning classes', 'CS courses about AI')"
+        "Natural language search query (e.g., 'machine learning classes', 'CS courses about AI'). Write course codes with an uppercase subject (e.g., 'CS 4780') to get exact matches"
+      ),
+    ...courseFilterFields,
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
       ),
     limit: z
       .number()
       .optional()
       .default(10)
-      .describe("Maximum number of results to return")
+      .describe("Maximum number of results to return"),
+    hideCompleted: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Leave out courses the student has already completed")
   }),
-  execute: async ({ query, limit }) => {
+  execute: async ({ query, term, limit, hideCompleted, ...filters }) => {
     try {
       const { agent } = getCurrentAgent<Chat>();
       const env = agent!.getEnv();
-
-      console.log(`[searchCourses] Searching for: "${query}"`);
-
-      // Generate embedding for the search query
-      const response = (await env.AI.run("@cf/baai/bge-base-en-v1.5", {
-        text: [query]
-      })) as { data: number[][] };
-      const queryEmbedding = response.data[0];
+      const userId = agent!.getUserId();
+      const searchTerm = resolveTerm(env, term);
 
       console.log(
-        `[searchCourses] Generated embedding with ${queryEmbedding.length} dimensions`
+        `[searchCourses] Searching ${searchTerm} for: "${query}"`,
+        filters
       );
 
-      // Search Vectorize
-      const results = await env.VECTORIZE.query(queryEmbedding, {
-        topK: limit,
-        returnMetadata: true
-      });
+      const { mode, courseIds } = await hybridSearch(
+        env,
+        query,
+        searchTerm,
+        limit,
+        filters
+      );
 
-      console.log(`[searchCourses] Found ${results.matches.length} matches`);
+      console.log(`[searchCourses] Found ${courseIds.length} ${mode} matches`);
 
-      if (results.matches.length === 0) {
+      if (courseIds.length === 0) {
         return "No courses found matching your query.";
       }
 
-      // Get full course details from D1
-      // Extract course ID from the vector ID (format: "course-AAS-2130-204-9713")
-      const courseIds = results.matches.map((match) => {
-        const courseId = match.id.replace("course-", "");
-        console.log(
-          `[searchCourses] Vector ID: ${match.id} → Course ID: ${courseId}`
-        );
-        return courseId;
-      });
-      console.log(
-        `[searchCourses] Fetching details for ${courseIds.length} courses`
-      );
-
+      // Get full course details from D1, re-applying filters Vectorize can't express
       const placeholders = courseIds.map(() => "?").join(",");
+      const { conditions, params } = buildSqlFilters(filters);
+      conditions.unshift("term = ?", `id IN (${placeholders})`);
 
       const courses = await env.DB.prepare(
-        `SELECT * FROM courses WHERE id IN (${placeholders})`
+        `SELECT * FROM courses WHERE ${conditions.join(" AND ")}`
       )
-        .bind(...courseIds)
-        .all();
+        .bind(searchTerm, ...courseIds, ...params)
+        .all<Course>();
+
+      // Restore the ranked order, which SQL IN doesn't preserve
+      courses.results.sort(
+        (a, b) => courseIds.indexOf(a.id) - courseIds.indexOf(b.id)
+      );
 
       console.log(
         `[searchCourses] Retrieved ${courses.results.length} course details`
       );
 
+      const completed = await getCompletedCourseCodes(env, userId);
+      const flagged = flagCompletedCourses(
+        removeCourseEmbeddings(courses.results),
+        completed
+      ).filter((course) => !hideCompleted || !course.completed);
+
+      agent!.rememberCourses("searchCourses", query, flagged);
+
       return {
-        count: courses.results.length,
-        courses: removeCourseEmbeddings(courses.results)
+        term: searchTerm,
+        matchType: mode,
+        filters,
+        count: flagged.length,
+        courses: flagged
       };
     } catch (error) {
       console.error("[searchCourses] Error:", error);
@@ -102,115 +193,71 @@ const searchCourses = tool({
  */
 const advancedCourseSearch = tool({
   description:
-    "Search courses with specific filters: subject, credits, day of week, instructor, distribution requirements",
+    "Search courses with specific filters: subject, credits, instructor, distribution requirements, days the course meets or must not meet on, start and end times, and meeting length",
   inputSchema: z.object({
-    subject: z
-      .string()
-      .optional()
-      .describe("Subject code (e.g., 'CS', 'AAS', 'MATH')"),
-    credits: z.number().optional().describe("Number of credits (e.g., 3, 4)"),
-    dayOfWeek: z
-      .string()
-      .optional()
-      .describe("Day of week (M, T, W, R, F or combinations like 'MW', 'TR')"),
+    ...courseFilterFields,
     instructor: z
       .string()
       .optional()
       .describe("Instructor name (partial match)"),
-    distributionReq: z
-      .string()
-      .optional()
-      .describe("Distribution requirement (e.g., 'GLC-AS', 'MQR-AS', 'CA-AG')"),
-    minCredits: z.number().optional().describe("Minimum credits"),
-    maxCredits: z.number().optional().describe("Maximum credits"),
-    catalogNbrStart: z
+    term: z
       .string()
       .optional()
       .describe(
-        "Class level (e.g., '1000' for 1000-level, '2' for 2000-level)"
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
       ),
     limit: z
       .number()
       .optional()
       .default(20)
-      .describe("Maximum number of results")
+      .describe("Maximum number of results"),
+    hideCompleted: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Leave out courses the student has already completed")
   }),
   execute: async ({
-    subject,
-    credits,
-    dayOfWeek,
     instructor,
-    distributionReq,
-    minCredits,
-    maxCredits,
-    catalogNbrStart,
-    limit
+    term,
+    limit,
+    hideCompleted,
+    ...courseFilters
   }) => {
     try {
       const { agent } = getCurrentAgent<Chat>();
       const env = agent!.getEnv();
+      const userId = agent!.getUserId();
+      const searchTerm = resolveTerm(env, term);
 
-      console.log(`[advancedCourseSearch] Filters:`, {
-        subject,
-        credits,
-        dayOfWeek,
+      // Echoed back so the model can explain what was searched
+      const filters = {
+        term: searchTerm,
+        ...courseFilters,
         instructor,
-        distributionReq,
-        minCredits,
-        maxCredits,
-        catalogNbrStart
-      });
-
-      // Build dynamic SQL query
-      const conditions = ["component IN ('LEC', 'SEM')"];
-      const params: any[] = [];
-
-      if (subject) {
-        conditions.push("subject = ?");
-        params.push(subject.toUpperCase());
-      }
-
-      if (credits) {
-        conditions.push("credits = ?");
-        params.push(credits);
-      }
+        hideCompleted
+      };
 
-      if (minCredits) {
-        conditions.push("credits >= ?");
-        params.push(minCredits);
-      }
+      console.log(`[advancedCourseSearch] Filters:`, filters);
 
-      if (maxCredits) {
-        conditions.push("credits <= ?");
-        params.push(maxCredits);
-      }
+      // Build dynamic SQL query
+      const { conditions, params } = buildSqlFilters(courseFilters);
+      conditions.unshift("component IN ('LEC', 'SEM')", "term = ?");
+      params.unshift(searchTerm);
 
       if (instructor) {
         conditions.push("instructors LIKE ?");
         params.push(`%${instructor}%`);
       }
 
-      if (distributionReq) {
-        // Since Cornell's API does not have FWS in the attributes field, we check to see if the course title has FWS in it.
-        if (distributionReq.toUpperCase() === "FWS") {
-          conditions.push("title LIKE ?");
-          params.push(`FWS:%`);
-        } else {
-          conditions.push("attributes LIKE ?");
-          params.push(`%"${distributionReq}"%`);
-        }
-      }
-
-      if (catalogNbrStart) {
-        conditions.push("catalog_nbr LIKE ?");
-        params.push(`${catalogNbrStart}%`);
-      }
-
-      if (dayOfWeek) {
-        // Match any of the specified days in the meetings field
-        const dayPattern = `%${dayOfWeek}%`;
-        conditions.push("meetings LIKE ?");
-        params.push(dayPattern);
+      if (hideCompleted) {
+        conditions.push(`NOT EXISTS (
+          SELECT 1 FROM user_completed_courses ucc
+          WHERE ucc.user_id = ?
+          AND ucc.subject = courses.subject
+          AND ucc.catalog_nbr = courses.catalog_nbr
+        )`);
+        params.push(userId);
       }
 
       params.push(limit);
@@ -234,19 +281,31 @@ const advancedCourseSearch = tool({
       );
 
       if (courses.results.length === 0) {
-        return "No courses found matching your filters.";
+        return {
+          count: 0,
+          filters,
+          message: "No courses found matching your filters."
+        };
       }
 
+      const results = flagCompletedCourses(
+        removeCourseEmbeddings(courses.results),
+        await getCompletedCourseCodes(env, userId)
+      );
+
+      agent!.rememberCourses(
+        "advancedCourseSearch",
+        Object.entries(filters)
+          .filter(([, value]) => value !== undefined && value !== false)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(", "),
+        results
+      );
+
       return {
         count: courses.results.length,
-        filters: {
-          subject,
-          credits,
-          dayOfWeek,
-          instructor,
-          catalogNbrStart
-        },
-        courses: removeCourseEmbeddings(courses.results)
+        filters,
+        courses: results
       };
     } catch (error) {
       console.error("[advancedCourseSearch] Error:", error);
@@ -256,313 +315,2398 @@ const advancedCourseSearch = tool({
 });
 
 /**
- * Get detailed information about a specific course
+ * Candidate courses pulled from hybrid search before the free-time check
  */
-const getCourseDetails = tool({
+const FREE_TIME_SEARCH_CANDIDATES = 50;
+
+/**
+ * Upper bound on sections checked against the student's free time
+ */
+const FREE_TIME_MAX_SECTIONS = 200;
+
+/**
+ * Find courses that fit in the free time around the user's schedule
+ */
+const findCoursesInFreeTime = tool({
   description:
-    "Get detailed information about a specific Cornell course by its ID, or get all sections by subject and catalog number",
-  inputSchema: z.object({
-    courseId: z
-      .string()
-      .optional()
-      .describe("The course ID (e.g., 'CS-2110-001-12345')"),
-    subject: z.string().optional().describe("The subject code (e.g., 'CS')"),
-    catalogNbr: z
-      .string()
-      .optional()
-      .describe("The catalog number (e.g., '2110')")
-  }),
-  execute: async ({ courseId, subject, catalogNbr }) => {
-    const { agent } = getCurrentAgent<Chat>();
-    const env = agent!.getEnv();
+    "Find courses whose meetings all fit in the free time around the user's schedule (e.g. 'what can I take Tuesday afternoon?'). Restrict the days and hours, and optionally combine with a natural language query and the subject, level, credits and distribution filters. A course only counts when its lecture and a linked section of each other required component (DIS, LAB) fit.",
+  inputSchema: z
+    .object({
+      query: z
+        .string()
+        .optional()
+        .describe(
+          "Natural language topic (e.g., 'creative writing'); omit to list everything that fits"
+        ),
+      ...courseFilterFields,
+      days: z
+        .string()
+        .optional()
+        .default("MTWRF")
+        .describe(
+          "Days the course may meet on (e.g., 'T' for Tuesday only, 'TR'). Defaults to weekdays"
+        ),
+      startTime: z
+        .string()
+        .optional()
+        .default("08:00AM")
+        .describe(
+          "Earliest a meeting may start (e.g., '12:00PM' for afternoons)"
+        ),
+      endTime: z
+        .string()
+        .optional()
+        .default("10:00PM")
+        .describe("Latest a meeting may end (e.g., '05:00PM')"),
+      term: z
+        .string()
+        .optional()
+        .describe(
+          "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+        ),
+      limit: z
+        .number()
+        .optional()
+        .default(10)
+        .describe("Maximum number of courses to return"),
+      hideCompleted: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Leave out courses the student has already completed")
+    })
+    // days, startTime and endTime replace the day and time filters: meetings
+    // must stay within them rather than include them
+    .omit({
+      dayOfWeek: true,
+      excludeDays: true,
+      earliestStart: true,
+      latestEnd: true
+    }),
+  execute: async ({
+    query,
+    days,
+    startTime,
+    endTime,
+    term,
+    limit,
+    hideCompleted,
+    ...filters
+  }) => {
+    try {
+      const { agent } = getCurrentAgent<Chat>();
+      const env = agent!.getEnv();
+      const userId = agent!.getUserId();
+      const searchTerm = resolveTerm(env, term);
 
-    // If specific course ID provided, get that course
-    if (courseId) {
-      const course = await env.DB.prepare("SELECT * FROM courses WHERE id = ?")
-        .bind(courseId)
-        .first();
+      const allowedDays = parseDays(days);
+      if (!allowedDays) {
+        return `"${days}" is not a day pattern. Use day codes like "T", "TR" or "MWF".`;
+      }
+      if (
+        ![startTime, endTime].every((time) =>
+          /^\d{1,2}:\d{2}\s*(AM|PM)$/i.test(time.trim())
+        )
+      ) {
+        return 'startTime and endTime must look like "12:00PM".';
+      }
+      const dayStart = timeToMinutes(startTime);
+      const dayEnd = timeToMinutes(endTime);
+      if (dayEnd <= dayStart) {
+        return `endTime ${endTime} must be after startTime ${startTime}.`;
+      }
 
-      if (!course) {
-        return `Course ${courseId} not found.`;
+      const scheduled = await attachMeetings(
+        env,
+        (
+          await env.DB.prepare(
+            `SELECT c.* FROM user_schedules us
+             JOIN courses c ON c.id = us.course_id AND c.term = us.term
+             WHERE us.user_id = ? AND us.term = ?`
+          )
+            .bind(userId, searchTerm)
+            .all<Course>()
+        ).results
+      );
+
+      const windows = computeFreeWindows(
+        scheduled,
+        allowedDays,
+        dayStart,
+        dayEnd
+      );
+      if (windows.length === 0) {
+        return `You have no free time on ${days} between ${startTime} and ${endTime} in ${searchTerm}.`;
       }
 
-      return removeCourseEmbeddings([course])[0];
-    }
+      const { conditions, params } = buildSqlFilters(filters, "c");
+      conditions.unshift("c.term = ?", "c.component IN ('LEC', 'SEM')");
+      params.unshift(searchTerm);
+
+      let ranked: string[] | null = null;
+      if (query) {
+        ranked = (
+          await hybridSearch(
+            env,
+            query,
+            searchTerm,
+            FREE_TIME_SEARCH_CANDIDATES,
+            filters
+          )
+        ).courseIds;
+        if (ranked.length === 0) {
+          return "No courses found matching your query.";
+        }
+        conditions.push(`c.id IN (${ranked.map(() => "?").join(",")})`);
+        params.push(...ranked);
+      }
 
-    // If subject and catalogNbr provided, get all sections
-    if (subject && catalogNbr) {
-      const sections = await env.DB.prepare(
-        "SELECT * FROM courses WHERE subject = ? AND catalog_nbr = ? ORDER BY component, section"
-      )
-        .bind(subject, catalogNbr)
-        .all();
+      // Narrow in SQL to sections that meet only on the allowed days and hours,
+      // leaving out courses already in the schedule
+      conditions.push(
+        `EXISTS (
+          SELECT 1 FROM course_meetings cm
+          WHERE cm.term = c.term AND cm.course_id = c.id AND cm.tba = 0
+        )`,
+        `NOT EXISTS (
+          SELECT 1 FROM course_meetings cm
+          WHERE cm.term = c.term AND cm.course_id = c.id AND cm.tba = 0
+          AND ((cm.day_mask & ?) != 0 OR cm.start_min < ? OR cm.end_min > ?)
+        )`,
+        `NOT EXISTS (
+          SELECT 1 FROM user_schedules us
+          JOIN courses s ON s.id = us.course_id AND s.term = us.term
+          WHERE us.user_id = ? AND us.term = c.term
+          AND s.subject = c.subject AND s.catalog_nbr = c.catalog_nbr
+        )`
+      );
+      params.push(
+        dayMask(DAY_CODES) & ~dayMask(allowedDays),
+        dayStart,
+        dayEnd,
+        userId
+      );
+
+      const candidates = await attachMeetings(
+        env,
+        (
+          await env.DB.prepare(
+            `SELECT c.* FROM courses c
+             WHERE ${conditions.join(" AND ")}
+             ORDER BY c.subject, c.catalog_nbr, c.section
+             LIMIT ?`
+          )
+            .bind(...params, FREE_TIME_MAX_SECTIONS)
+            .all<Course & SectionInfo>()
+        ).results
+      );
+      if (ranked) {
+        candidates.sort((a, b) => ranked.indexOf(a.id) - ranked.indexOf(b.id));
+      }
+
+      const completed = await getCompletedCourseCodes(env, userId);
+      const fitting = candidates.filter(
+        (section) =>
+          fitsFreeWindows(section.parsedMeetings, windows) &&
+          !(
+            hideCompleted &&
+            completed.has(`${section.subject} ${section.catalog_nbr}`)
+          )
+      );
+
+      const results = (
+        await completeFreeTimeCourses(
+          env,
+          searchTerm,
+          fitting,
+          scheduled,
+          allowedDays,
+          dayStart,
+          dayEnd,
+          limit
+        )
+      ).map(({ section: { parsedMeetings, ...course }, otherSections }) => ({
+        ...course,
+        otherSections
+      }));
+
+      const courses = flagCompletedCourses(
+        removeCourseEmbeddings(results),
+        completed
+      );
 
-      if (sections.results.length === 0) {
-        return `No sections found for ${subject} ${catalogNbr}.`;
+      const filterSummary = {
+        term: searchTerm,
+        ...filters,
+        days,
+        startTime,
+        endTime,
+        hideCompleted
+      };
+      agent!.rememberCourses(
+        "findCoursesInFreeTime",
+        query ||
+          Object.entries(filterSummary)
+            .filter(([, value]) => value !== undefined && value !== false)
+            .map(([key, value]) => `${key}=${value}`)
+            .join(", "),
+        courses
+      );
+
+      if (courses.length === 0) {
+        return {
+          term: searchTerm,
+          freeWindows: formatFreeWindows(windows),
+          count: 0,
+          message:
+            "No courses fit entirely in these free windows. Try more days, wider hours or fewer filters."
+        };
       }
 
       return {
-        course: `${subject} ${catalogNbr}`,
-        totalSections: sections.results.length,
-        sections: removeCourseEmbeddings(sections.results)
+        term: searchTerm,
+        filters: filterSummary,
+        freeWindows: formatFreeWindows(windows),
+        count: courses.length,
+        courses
       };
+    } catch (error) {
+      console.error("[findCoursesInFreeTime] Error:", error);
+      return `Error finding courses in your free time: ${error}`;
     }
-
-    return "Please provide either a courseId or both subject and catalogNbr.";
   }
 });
 
 /**
- * Add a course to the user's schedule
+ * Get detailed information about a specific course
  */
-const addCourseToSchedule = tool({
+const getCourseDetails = tool({
   description:
-    "Add a Cornell course to the user's schedule and automatically check for conflicts",
+    "Get detailed information about a specific Cornell course by its ID, or get all sections by subject and catalog number",
   inputSchema: z.object({
-    courseId: z.string().describe("The course ID to add"),
-    notes: z.string().optional().describe("Optional notes about this course")
+    courseId: z
+      .string()
+      .optional()
+      .describe("The course ID (e.g., 'CS-2110-001-12345')"),
+    subject: z.string().optional().describe("The subject code (e.g., 'CS')"),
+    catalogNbr: z
+      .string()
+      .optional()
+      .describe("The catalog number (e.g., '2110')"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
   }),
-  execute: async ({ courseId, notes }) => {
+  execute: async ({ courseId, subject, catalogNbr, term }) => {
     const { agent } = getCurrentAgent<Chat>();
     const env = agent!.getEnv();
-    const userId = agent!.getUserId();
 
     try {
-      // Get the course details being added
-      const newCourse = await env.DB.prepare(
-        "SELECT * FROM courses WHERE id = ?"
-      )
-        .bind(courseId)
-        .first();
+      const searchTerm = resolveTerm(env, term);
+
+      // If specific course ID provided, get that course
+      if (courseId) {
+        const course = await env.DB.prepare(
+          "SELECT * FROM courses WHERE id = ? AND term = ?"
+        )
+          .bind(courseId, searchTerm)
+          .first();
+
+        if (!course) {
+          return `Course ${courseId} not found in ${searchTerm}.`;
+        }
 
-      if (!newCourse) {
-        return `Error: Course ${courseId} not found in the catalog.`;
+        const [details] = removeCourseEmbeddings([course]);
+        agent!.rememberCourses("getCourseDetails", courseId, [details]);
+        return details;
       }
 
-      // Add to schedule
-      await env.DB.prepare(
-        `INSERT INTO user_schedules (user_id, course_id, notes)
-         VALUES (?, ?, ?)
-         ON CONFLICT(user_id, course_id) DO UPDATE SET notes = excluded.notes`
-      )
-        .bind(userId, courseId, notes || null)
-        .run();
-
-      // Check for conflicts with existing courses
-      const existingCourses = await env.DB.prepare(
-        `SELECT c.* FROM user_schedules us
-         JOIN courses c ON us.course_id = c.id
-         WHERE us.user_id = ? AND c.id != ?`
-      )
-        .bind(userId, courseId)
-        .all();
-
-      const conflicts: string[] = [];
-      const newMeetings = JSON.parse(newCourse.meetings as string) as string[];
+      // If subject and catalogNbr provided, get all sections
+      if (subject && catalogNbr) {
+        const sections = await env.DB.prepare(
+          "SELECT * FROM courses WHERE subject = ? AND catalog_nbr = ? AND term = ? ORDER BY component, section"
+        )
+          .bind(subject, catalogNbr, searchTerm)
+          .all();
 
-      // Check each existing course for conflicts
-      for (const existingCourse of existingCourses.results) {
-        const existingMeetings = JSON.parse(
-          existingCourse.meetings as string
-        ) as string[];
-
-        for (const newMeeting of newMeetings) {
-          for (const existingMeeting of existingMeetings) {
-            if (meetingsConflict(newMeeting, existingMeeting)) {
-              const conflictMsg = `⚠️  Conflicts with ${existingCourse.subject} ${existingCourse.catalog_nbr}: ${newMeeting} overlaps with ${existingMeeting}`;
-              conflicts.push(conflictMsg);
-            }
-          }
+        if (sections.results.length === 0) {
+          return `No sections found for ${subject} ${catalogNbr} in ${searchTerm}.`;
         }
-      }
 
-      // Build response
-      let response = `✅ Successfully added ${newCourse.subject} ${newCourse.catalog_nbr}: ${newCourse.title} to your schedule.`;
+        const details = removeCourseEmbeddings(sections.results);
+        agent!.rememberCourses(
+          "getCourseDetails",
+          `${subject} ${catalogNbr}`,
+          details
+        );
 
-      if (conflicts.length > 0) {
-        response += `\n\n**Time Conflicts Detected:**\n${conflicts.join("\n")}`;
+        return {
+          course: `${subject} ${catalogNbr}`,
+          term: searchTerm,
+          totalSections: sections.results.length,
+          sections: details
+        };
       }
 
-      return response;
+      return "Please provide either a courseId or both subject and catalogNbr.";
     } catch (error) {
-      return `Error adding course: ${error}`;
+      console.error("[getCourseDetails] Error:", error);
+      return `Error getting course details: ${error}`;
     }
   }
 });
 
 /**
- * View the user's current schedule
+ * List the terms in which a course has been offered
  */
-const viewMySchedule = tool({
+const getCourseOfferings = tool({
   description:
-    "Display the user's schedule as a visual weekly calendar. Call this whenever the user asks to see, view, show, or display their schedule.",
-  inputSchema: z.object({}),
-  execute: async () => {
+    "List every term a Cornell course was offered in the catalog (e.g., to answer 'was this offered last spring?')",
+  inputSchema: z.object({
+    subject: z.string().describe("The subject code (e.g., 'CS')"),
+    catalogNbr: z.string().describe("The catalog number (e.g., '2110')")
+  }),
+  execute: async ({ subject, catalogNbr }) => {
     const { agent } = getCurrentAgent<Chat>();
     const env = agent!.getEnv();
-    const userId = agent!.getUserId();
 
     const result = await env.DB.prepare(
-      `SELECT c.*, us.notes, us.added_at
-       FROM user_schedules us
-       JOIN courses c ON us.course_id = c.id
-       WHERE us.user_id = ?
-       ORDER BY c.subject, c.catalog_nbr`
+      `SELECT term, COUNT(*) AS sections, GROUP_CONCAT(DISTINCT component) AS components
+       FROM courses
+       WHERE subject = ? AND catalog_nbr = ?
+       GROUP BY term`
     )
-      .bind(userId)
-      .all();
+      .bind(subject.toUpperCase(), catalogNbr)
+      .all<{ term: string; sections: number; components: string }>();
 
     if (result.results.length === 0) {
-      return "Your schedule is empty. Use searchCourses to find classes and addCourseToSchedule to add them.";
-    }
-
-    // Parse all course meetings and organize by day
-    const dayMap: Record<
-      string,
-      Array<{ time: string; course: string; title: string }>
-    > = {
-      Monday: [],
-      Tuesday: [],
-      Wednesday: [],
-      Thursday: [],
-      Friday: []
-    };
+      return `${subject} ${catalogNbr} has not been offered in any ingested term.`;
+    }
+
+    const offerings = result.results
+      .sort((a, b) => termSortKey(a.term) - termSortKey(b.term))
+      .map((row) => ({
+        term: row.term,
+        sections: row.sections,
+        components: row.components.split(",")
+      }));
 
-    const dayCodeToName: Record<string, string> = {
-      M: "Monday",
-      T: "Tuesday",
-      W: "Wednesday",
-      R: "Thursday",
-      F: "Friday"
+    return {
+      course: `${subject} ${catalogNbr}`,
+      currentTerm: env.CURRENT_TERM,
+      offerings
     };
+  }
+});
 
-    result.results.forEach((course: any) => {
-      const meetings = JSON.parse(course.meetings) as string[];
-      const courseLabel = `${course.subject} ${course.catalog_nbr}`;
-
-      meetings.forEach((meeting: string) => {
-        const parts = meeting.split(" ");
-        if (parts.length >= 2) {
-          const [days, time] = parts;
-
-          for (const dayCode of days) {
-            const dayName = dayCodeToName[dayCode];
-            if (dayName) {
-              dayMap[dayName].push({
-                time,
-                course: courseLabel,
-                title: course.title as string
-              });
-            }
-          }
+/**
+ * Show catalog changes detected when courses were re-ingested
+ */
+const getCourseChanges = tool({
+  description:
+    "Show changes to course sections (meeting times, instructors, status, credits, title, prerequisites) detected since they were ingested. Without a course, lists changes to courses in the user's schedule made after they added them.",
+  inputSchema: z.object({
+    courseCode: z
+      .string()
+      .optional()
+      .describe(
+        "Course code (e.g., 'CS 3110'); omit to check the user's schedule"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ courseCode, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const changeTerm = resolveTerm(env, term);
+      let result: D1Result<CourseChangeRow>;
+
+      if (courseCode) {
+        const parsed = parseCourseCode(courseCode);
+        if (!parsed) {
+          return `Error: "${courseCode}" is not a course code like "CS 3110".`;
         }
-      });
-    });
-
-    // Build text schedule
-    let textSchedule = `📅 Your Weekly Schedule (${result.results.length} courses)\n\n`;
-    for (const [day, classes] of Object.entries(dayMap)) {
-      textSchedule += `**${day}:**\n`;
-      if (classes.length === 0) {
-        textSchedule += `  No classes\n`;
+
+        result = await env.DB.prepare(
+          `SELECT * FROM course_changes
+           WHERE term = ? AND subject = ? AND catalog_nbr = ?
+           ORDER BY detected_at DESC
+           LIMIT 50`
+        )
+          .bind(changeTerm, parsed.subject, parsed.catalogNbr)
+          .all<CourseChangeRow>();
       } else {
-        classes.forEach(({ time, course, title }) => {
-          textSchedule += `  ${time} - ${course}: ${title}\n`;
-        });
+        // Only changes made after the student added the section matter to them
+        result = await env.DB.prepare(
+          `SELECT cc.* FROM course_changes cc
+           JOIN user_schedules us ON us.course_id = cc.course_id AND us.term = cc.term
+           WHERE us.user_id = ? AND us.term = ? AND cc.detected_at >= us.added_at
+           ORDER BY cc.detected_at DESC
+           LIMIT 50`
+        )
+          .bind(userId, changeTerm)
+          .all<CourseChangeRow>();
       }
-      textSchedule += `\n`;
-    }
-
-    // Generate and upload SVG calendar
-    try {
-      const svgCalendar = generateSVGCalendar(result.results);
-      const imageUrl = await uploadSVGImage(svgCalendar);
 
-      if (imageUrl) {
-        return `${textSchedule}\n**Visual Calendar:**\n![Weekly Schedule](${imageUrl})`;
+      if (result.results.length === 0) {
+        return courseCode
+          ? `No changes to ${courseCode} have been detected in ${changeTerm}.`
+          : `None of the courses in your ${changeTerm} schedule have changed since you added them.`;
       }
+
+      return {
+        term: changeTerm,
+        changes: result.results.map((change) => ({
+          courseId: change.course_id,
+          summary: describeCourseChange(change),
+          field: change.field,
+          from: change.old_value,
+          to: change.new_value,
+          detectedAt: change.detected_at
+        }))
+      };
     } catch (error) {
-      console.error("[viewMySchedule] Error generating/uploading SVG:", error);
+      return `Error checking course changes: ${error}`;
     }
-
-    // Fallback to text-only if upload fails
-    return textSchedule;
   }
 });
 
 /**
- * Check for time conflicts in the user's schedule
+ * Check whether the student meets a course's prerequisites and corequisites
  */
-const checkScheduleConflicts = tool({
+const checkEligibility = tool({
   description:
-    "Check for time conflicts between courses in the user's schedule",
-  inputSchema: z.object({}),
-  execute: async () => {
+    "Check whether the student can take a course by evaluating its parsed prerequisites against the courses they have completed (their saved completed courses plus any listed here). Corequisites are also satisfied by courses in their schedule for the same term.",
+  inputSchema: z.object({
+    course: z.string().describe("The course to check (e.g., 'CS 3110')"),
+    completedCourses: z
+      .array(z.string())
+      .optional()
+      .default([])
+      .describe(
+        "Additional completed courses mentioned in conversation but not saved (e.g., ['CS 2110', 'CS 2800'])"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ course, completedCourses, term }) => {
     const { agent } = getCurrentAgent<Chat>();
     const env = agent!.getEnv();
     const userId = agent!.getUserId();
 
-    const result = await env.DB.prepare(
-      `SELECT c.id, c.title, c.subject, c.catalog_nbr, c.meetings
-       FROM user_schedules us
-       JOIN courses c ON us.course_id = c.id
-       WHERE us.user_id = ?`
-    )
-      .bind(userId)
-      .all();
+    try {
+      const scheduleTerm = resolveTerm(env, term);
 
-    if (result.results.length < 2) {
-      return "You need at least 2 courses in your schedule to check for conflicts.";
-    }
+      const parsed = parseCourseCode(course);
+      if (!parsed) {
+        return `"${course}" is not a valid course code. Use a format like "CS 3110".`;
+      }
+
+      // Prefer the lecture row, which carries the course-level prerequisite text
+      const row = await env.DB.prepare(
+        `SELECT prerequisites, prerequisites_parsed FROM courses
+         WHERE term = ? AND subject = ? AND catalog_nbr = ?
+         ORDER BY component = 'LEC' DESC
+         LIMIT 1`
+      )
+        .bind(scheduleTerm, parsed.subject, parsed.catalogNbr)
+        .first<{
+          prerequisites: string;
+          prerequisites_parsed: string | null;
+        }>();
+
+      if (!row) {
+        return `${parsed.subject} ${parsed.catalogNbr} is not offered in ${scheduleTerm}.`;
+      }
 
-    const conflicts = findConflicts(result.results as any[]);
+      // Rows ingested before prerequisite parsing existed are parsed on the fly
+      const requirements: ParsedPrerequisites = row.prerequisites_parsed
+        ? JSON.parse(row.prerequisites_parsed)
+        : parsePrerequisites(row.prerequisites);
 
-    if (conflicts.length === 0) {
-      return "No time conflicts found in your schedule!";
-    }
+      const completed = await getCompletedCourseCodes(env, userId);
+      for (const code of completedCourses.map(parseCourseCode)) {
+        if (code) completed.add(`${code.subject} ${code.catalogNbr}`);
+      }
 
-    return {
-      conflictCount: conflicts.length,
-      conflicts
-    };
+      const scheduled = await env.DB.prepare(
+        `SELECT DISTINCT c.subject, c.catalog_nbr FROM user_schedules us
+         JOIN courses c ON us.course_id = c.id AND us.term = c.term
+         WHERE us.user_id = ? AND us.term = ?`
+      )
+        .bind(userId, scheduleTerm)
+        .all<{ subject: string; catalog_nbr: string }>();
+
+      const completedOrScheduled = new Set([
+        ...completed,
+        ...scheduled.results.map((row) => `${row.subject} ${row.catalog_nbr}`)
+      ]);
+
+      const missingPrereqs = unmetRequirements(
+        requirements.prerequisites,
+        completed
+      );
+      const missingCoreqs = unmetRequirements(
+        requirements.corequisites,
+        completedOrScheduled
+      );
+
+      return {
+        course: `${parsed.subject} ${parsed.catalogNbr}`,
+        term: scheduleTerm,
+        eligible: !missingPrereqs && !missingCoreqs,
+        prerequisites: formatPrereq(requirements.prerequisites),
+        corequisites: formatPrereq(requirements.corequisites),
+        missingPrerequisites: formatPrereq(missingPrereqs),
+        missingCorequisites: formatPrereq(missingCoreqs),
+        allowsEquivalent: requirements.allowsEquivalent,
+        prerequisiteText: requirements.raw
+      };
+    } catch (error) {
+      console.error("[checkEligibility] Error:", error);
+      return `Error checking eligibility: ${error}`;
+    }
   }
 });
 
 /**
- * Remove a course from the user's schedule
+ * Add a course to the user's schedule
  */
-const removeCourseFromSchedule = tool({
-  description: "Remove a course from the user's schedule",
+const addCourseToSchedule = tool({
+  description:
+    "Add a Cornell course to the user's schedule (their active draft) and automatically check for conflicts. Courses with several required components (e.g. LEC + DIS) are only added once a section of every component is chosen: pass the other sections in withSections, or the tool returns status 'needs_section_choice' with the valid options.",
   inputSchema: z.object({
-    courseId: z
+    courseId: z.string().describe("The course ID to add"),
+    withSections: z
+      .array(z.string())
+      .optional()
+      .default([])
+      .describe(
+        "Course IDs of the course's other components to add together (e.g., the chosen DIS and LAB sections)"
+      ),
+    notes: z.string().optional().describe("Optional notes about this course"),
+    term: z
       .string()
-      .describe("Subject and catalog number in format 'CS-2110'")
+      .optional()
+      .describe(
+        "Term to add the course to (e.g., 'SP27'). Defaults to the current term"
+      )
   }),
-  execute: async ({ courseId }) => {
+  execute: async ({ courseId, withSections, notes, term }) => {
     const { agent } = getCurrentAgent<Chat>();
     const env = agent!.getEnv();
     const userId = agent!.getUserId();
 
-    const parts = courseId.split("-");
-    const subject = parts[0];
-    const catalogNbr = parts[1];
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const courseIds = [...new Set([courseId, ...withSections])];
 
-    const result = await env.DB.prepare(
-      `DELETE FROM user_schedules
-       WHERE user_id = ?
-       AND course_id IN (
-         SELECT id FROM courses
-         WHERE subject = ? AND catalog_nbr = ?
-       )`
-    )
-      .bind(userId, subject, catalogNbr)
-      .run();
+      // Get the sections being added
+      const placeholders = courseIds.map(() => "?").join(",");
+      const newSections = (
+        await env.DB.prepare(
+          `SELECT * FROM courses WHERE term = ? AND id IN (${placeholders})`
+        )
+          .bind(scheduleTerm, ...courseIds)
+          .all<Course & SectionInfo>()
+      ).results;
+
+      const notFound = courseIds.filter(
+        (id) => !newSections.some((section) => section.id === id)
+      );
+      if (notFound.length > 0) {
+        return `Error: Course ${notFound.join(", ")} not found in the ${scheduleTerm} catalog.`;
+      }
 
-    if (result.meta.changes === 0) {
-      return `Course ${courseId} was not in your schedule.`;
-    }
+      const newCourse = newSections.find((section) => section.id === courseId)!;
+      const code = `${newCourse.subject} ${newCourse.catalog_nbr}`;
+      if (newSections.some((s) => `${s.subject} ${s.catalog_nbr}` !== code)) {
+        return `Error: withSections must be sections of ${code}. Add other courses separately.`;
+      }
+
+      // Every section of the course, and the ones already in the schedule
+      const allSections = (
+        await env.DB.prepare(
+          `SELECT * FROM courses
+           WHERE term = ? AND subject = ? AND catalog_nbr = ?
+           ORDER BY component, section`
+        )
+          .bind(scheduleTerm, newCourse.subject, newCourse.catalog_nbr)
+          .all<Course & SectionInfo>()
+      ).results;
+      const scheduledIds = new Set(
+        (
+          await env.DB.prepare(
+            "SELECT course_id FROM user_schedules WHERE user_id = ? AND term = ?"
+          )
+            .bind(userId, scheduleTerm)
+            .all<{ course_id: string }>()
+        ).results.map((row) => row.course_id)
+      );
 
-    return `Successfully removed course ${courseId} from your schedule.`;
+      const selected = [
+        ...allSections.filter(
+          (s) => scheduledIds.has(s.id) && !courseIds.includes(s.id)
+        ),
+        ...newSections
+      ];
+      const enrollment = checkEnrollment(allSections, selected);
+
+      if (enrollment.duplicates.length > 0) {
+        return `Error: This would give ${code} more than one ${enrollment.duplicates.join("/")} section. Remove the scheduled one first.`;
+      }
+      if (enrollment.incompatible.length > 0) {
+        return `Error: ${enrollment.incompatible
+          .map(([a, b]) => `${a} can't be taken with ${b}`)
+          .join("; ")}. Choose sections from the same linked group.`;
+      }
+
+      // Other scheduled courses, for conflict checks
+      const existingCourses = await attachMeetings(
+        env,
+        (
+          await env.DB.prepare(
+            `SELECT c.* FROM user_schedules us
+             JOIN courses c ON us.course_id = c.id AND us.term = c.term
+             WHERE us.user_id = ? AND us.term = ?`
+          )
+            .bind(userId, scheduleTerm)
+            .all<Course>()
+        ).results.filter((c) => !courseIds.includes(c.id))
+      );
+      const conflictsWith = (course: CourseWithMeetings) =>
+        existingCourses.flatMap((existing) =>
+          course.parsedMeetings.flatMap((meeting) =>
+            existing.parsedMeetings
+              .filter((other) => meetingsConflict(meeting, other))
+              .map(
+                (other) =>
+                  `⚠️  Conflicts with ${existing.subject} ${existing.catalog_nbr}: ${meeting.raw} overlaps with ${other.raw}`
+              )
+          )
+        );
+
+      // Don't add a partial enrollment; list the sections that would complete it
+      if (enrollment.missing.length > 0) {
+        const missingComponents = await loadSectionChoices(
+          env,
+          allSections,
+          selected,
+          enrollment.missing,
+          (option) => conflictsWith(option).length > 0
+        );
+
+        return {
+          status: "needs_section_choice",
+          course: code,
+          term: scheduleTerm,
+          selected: selected.map(sectionLabel),
+          missingComponents,
+          message: `${code} also requires ${enrollment.missing.join(" and ")}. Ask which section the student wants, then call addCourseToSchedule again with courseId ${courseId} and the chosen sections in withSections.`
+        };
+      }
+
+      // Add to schedule
+      await env.DB.batch(
+        newSections.map((section) =>
+          env.DB.prepare(
+            `INSERT INTO user_schedules (user_id, term, course_id, notes)
+             VALUES (?, ?, ?, ?)
+             ON CONFLICT(user_id, term, course_id) DO UPDATE SET notes = excluded.notes`
+          ).bind(userId, scheduleTerm, section.id, notes || null)
+        )
+      );
+
+      // Check for conflicts with existing courses in the same term
+      const conflicts = (await attachMeetings(env, newSections)).flatMap(
+        conflictsWith
+      );
+
+      // Build response
+      let response = `✅ Successfully added ${newSections.map(sectionLabel).join(", ")}: ${newCourse.title} to your ${scheduleTerm} schedule.`;
+
+      if (conflicts.length > 0) {
+        response += `\n\n**Time Conflicts Detected:**\n${conflicts.join("\n")}`;
+      }
+
+      return response;
+    } catch (error) {
+      return `Error adding course: ${error}`;
+    }
+  }
+});
+
+/**
+ * Check the schedule for incomplete or mismatched course enrollments
+ */
+const validateSchedule = tool({
+  description:
+    "Check that every course in the user's schedule has a section of each required component (e.g. a lecture without its discussion) and that its sections are linked to each other. Lists the valid sections to complete each incomplete course.",
+  inputSchema: z.object({
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+
+      // Every section of every course with a section in the schedule
+      const sections = (
+        await env.DB.prepare(
+          `SELECT c.*, EXISTS (
+             SELECT 1 FROM user_schedules us
+             WHERE us.user_id = ? AND us.term = c.term AND us.course_id = c.id
+           ) AS scheduled
+           FROM courses c
+           WHERE c.term = ? AND (c.subject, c.catalog_nbr) IN (
+             SELECT c2.subject, c2.catalog_nbr FROM user_schedules us
+             JOIN courses c2 ON c2.id = us.course_id AND c2.term = us.term
+             WHERE us.user_id = ? AND us.term = ?
+           )
+           ORDER BY c.subject, c.catalog_nbr, c.component, c.section`
+        )
+          .bind(userId, scheduleTerm, userId, scheduleTerm)
+          .all<SectionInfo & { scheduled: number }>()
+      ).results;
+
+      if (sections.length === 0) {
+        return `Your ${scheduleTerm} schedule is empty.`;
+      }
+
+      const byCourse = new Map<string, typeof sections>();
+      for (const section of sections) {
+        const code = `${section.subject} ${section.catalog_nbr}`;
+        byCourse.set(code, [...(byCourse.get(code) ?? []), section]);
+      }
+
+      const issues = [...byCourse].flatMap(([code, allSections]) => {
+        const selected = allSections.filter((s) => s.scheduled);
+        const check = checkEnrollment(allSections, selected);
+        if (
+          check.missing.length === 0 &&
+          check.duplicates.length === 0 &&
+          check.incompatible.length === 0
+        ) {
+          return [];
+        }
+
+        return [
+          {
+            course: code,
+            scheduled: selected.map(sectionLabel),
+            ...check,
+            options: Object.fromEntries(
+              check.missing.map((component) => [
+                component,
+                sectionOptions(allSections, selected, component).map(
+                  (option) => ({
+                    courseId: option.id,
+                    section: sectionLabel(option)
+                  })
+                )
+              ])
+            )
+          }
+        ];
+      });
+
+      return {
+        term: scheduleTerm,
+        courses: byCourse.size,
+        valid: issues.length === 0,
+        issues
+      };
+    } catch (error) {
+      return `Error validating schedule: ${error}`;
+    }
+  }
+});
+
+/**
+ * View the user's current schedule
+ */
+const viewMySchedule = tool({
+  description:
+    "Display the user's schedule as a visual weekly calendar. Call this whenever the user asks to see, view, show, or display their schedule.",
+  inputSchema: z.object({
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+
+      const result = await env.DB.prepare(
+        `SELECT c.*, us.notes, us.added_at
+         FROM user_schedules us
+         JOIN courses c ON us.course_id = c.id AND us.term = c.term
+         WHERE us.user_id = ? AND us.term = ?
+         ORDER BY c.subject, c.catalog_nbr`
+      )
+        .bind(userId, scheduleTerm)
+        .all<Course>();
+
+      if (result.results.length === 0) {
+        return `Your ${scheduleTerm} schedule is empty. Use searchCourses to find classes and addCourseToSchedule to add them.`;
+      }
+
+      // Parse all course meetings and organize by day
+      const courses = await attachMeetings(env, result.results);
+      const textSchedule = formatTextSchedule(
+        parseMeetingsByDay(courses),
+        courses.length,
+        scheduleTerm
+      );
+
+      // Generate and store SVG calendar
+      try {
+        const svgCalendar = generateSVGCalendar(courses);
+        const imageUrl = await storeSVGCalendar(env, userId, svgCalendar);
+
+        return `${textSchedule}\n**Visual Calendar:**\n![Weekly Schedule](${imageUrl})`;
+      } catch (error) {
+        console.error("[viewMySchedule] Error generating/storing SVG:", error);
+      }
+
+      // Fallback to text-only if storing fails
+      return textSchedule;
+    } catch (error) {
+      console.error("[viewMySchedule] Error:", error);
+      return `Error loading your schedule: ${error}`;
+    }
+  }
+});
+
+/**
+ * Check for time conflicts in the user's schedule
+ */
+const checkScheduleConflicts = tool({
+  description:
+    "Check for time conflicts between courses in the user's schedule",
+  inputSchema: z.object({
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+
+      const result = await env.DB.prepare(
+        `SELECT c.*
+         FROM user_schedules us
+         JOIN courses c ON us.course_id = c.id AND us.term = c.term
+         WHERE us.user_id = ? AND us.term = ?`
+      )
+        .bind(userId, scheduleTerm)
+        .all<Course>();
+
+      if (result.results.length < 2) {
+        return "You need at least 2 courses in your schedule to check for conflicts.";
+      }
+
+      const conflicts = findConflicts(
+        await attachMeetings(env, result.results)
+      );
+
+      if (conflicts.length === 0) {
+        return "No time conflicts found in your schedule!";
+      }
+
+      return {
+        conflictCount: conflicts.length,
+        conflicts
+      };
+    } catch (error) {
+      console.error("[checkScheduleConflicts] Error:", error);
+      return `Error checking schedule conflicts: ${error}`;
+    }
+  }
+});
+
+/**
+ * List the student's schedule drafts for a term
+ */
+const listScheduleDrafts = tool({
+  description:
+    "List the student's named schedule drafts (e.g. 'Main', 'Plan B') for a term and which one is active. The active draft is the schedule every other schedule tool reads and writes.",
+  inputSchema: z.object({
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      return {
+        term: scheduleTerm,
+        drafts: await listDrafts(env, userId, scheduleTerm)
+      };
+    } catch (error) {
+      return `Error listing drafts: ${error}`;
+    }
+  }
+});
+
+/**
+ * Create a schedule draft, empty or cloned from another draft
+ */
+const createScheduleDraft = tool({
+  description:
+    "Create a named schedule draft for a term, empty or as a copy of another draft, and by default switch to it so addCourseToSchedule and removeCourseFromSchedule edit the new draft. The student's existing schedule is kept as the 'Main' draft.",
+  inputSchema: z.object({
+    name: z.string().min(1).max(50).describe("Draft name (e.g., 'Plan B')"),
+    cloneFrom: z
+      .string()
+      .optional()
+      .describe("Name of a draft to copy; omit to start empty"),
+    activate: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Switch to the new draft"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ name, cloneFrom, activate, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const drafts = await listDrafts(env, userId, scheduleTerm);
+
+      if (findDraft(drafts, name)) {
+        return `A draft named "${name}" already exists for ${scheduleTerm}.`;
+      }
+
+      const source = cloneFrom ? findDraft(drafts, cloneFrom) : undefined;
+      if (cloneFrom && !source) {
+        return `No draft named "${cloneFrom}". Drafts: ${drafts.map((d) => d.name).join(", ")}.`;
+      }
+
+      await createDraft(env, userId, scheduleTerm, name.trim(), source);
+
+      if (activate) {
+        const updated = await listDrafts(env, userId, scheduleTerm);
+        await activateDraft(
+          env,
+          userId,
+          findDraft(updated, name)!,
+          updated.find((d) => d.active)!
+        );
+      }
+
+      return {
+        term: scheduleTerm,
+        created: name.trim(),
+        clonedFrom: source?.name,
+        active: activate,
+        drafts: await listDrafts(env, userId, scheduleTerm)
+      };
+    } catch (error) {
+      return `Error creating draft: ${error}`;
+    }
+  }
+});
+
+/**
+ * Rename a schedule draft
+ */
+const renameScheduleDraft = tool({
+  description: "Rename one of the student's schedule drafts",
+  inputSchema: z.object({
+    name: z.string().describe("Current draft name"),
+    newName: z.string().min(1).max(50).describe("New draft name"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ name, newName, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const drafts = await listDrafts(env, userId, scheduleTerm);
+      const draft = findDraft(drafts, name);
+
+      if (!draft) {
+        return `No draft named "${name}". Drafts: ${drafts.map((d) => d.name).join(", ")}.`;
+      }
+      const existing = findDraft(drafts, newName);
+      if (existing && existing.id !== draft.id) {
+        return `A draft named "${newName}" already exists for ${scheduleTerm}.`;
+      }
+
+      await env.DB.prepare("UPDATE schedule_drafts SET name = ? WHERE id = ?")
+        .bind(newName.trim(), draft.id)
+        .run();
+
+      return `Renamed draft "${draft.name}" to "${newName.trim()}".`;
+    } catch (error) {
+      return `Error renaming draft: ${error}`;
+    }
+  }
+});
+
+/**
+ * Delete an inactive schedule draft
+ */
+const deleteScheduleDraft = tool({
+  description:
+    "Delete one of the student's schedule drafts. The active draft can't be deleted; activate another draft first.",
+  inputSchema: z.object({
+    name: z.string().describe("Draft name"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ name, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const drafts = await listDrafts(env, userId, scheduleTerm);
+      const draft = findDraft(drafts, name);
+
+      if (!draft) {
+        return `No draft named "${name}". Drafts: ${drafts.map((d) => d.name).join(", ")}.`;
+      }
+      if (draft.active) {
+        return `"${draft.name}" is the active draft. Activate another draft before deleting it.`;
+      }
+
+      await env.DB.batch([
+        env.DB.prepare(
+          "DELETE FROM schedule_draft_courses WHERE draft_id = ?"
+        ).bind(draft.id),
+        env.DB.prepare("DELETE FROM schedule_drafts WHERE id = ?").bind(
+          draft.id
+        )
+      ]);
+
+      return `Deleted draft "${draft.name}" (${draft.courseCount} sections).`;
+    } catch (error) {
+      return `Error deleting draft: ${error}`;
+    }
+  }
+});
+
+/**
+ * Switch the active schedule to another draft
+ */
+const activateScheduleDraft = tool({
+  description:
+    "Switch the student's active schedule to another draft. The current schedule is saved in its draft, and the chosen draft becomes the schedule that viewMySchedule, exports and the other schedule tools use.",
+  inputSchema: z.object({
+    name: z.string().describe("Draft name"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ name, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const drafts = await listDrafts(env, userId, scheduleTerm);
+      const target = findDraft(drafts, name);
+
+      if (!target) {
+        return `No draft named "${name}". Drafts: ${drafts.map((d) => d.name).join(", ")}.`;
+      }
+      if (target.active) {
+        return `"${target.name}" is already the active draft.`;
+      }
+
+      await activateDraft(env, userId, target, drafts.find((d) => d.active)!);
+
+      return `Switched your ${scheduleTerm} schedule to "${target.name}" (${target.courseCount} sections).`;
+    } catch (error) {
+      return `Error switching drafts: ${error}`;
+    }
+  }
+});
+
+/**
+ * Compare two schedule drafts side by side
+ */
+const compareSchedules = tool({
+  description:
+    "Compare two of the student's schedule drafts by credits, days on campus, earliest start, latest end and time conflicts, and list the sections only one of them has.",
+  inputSchema: z.object({
+    first: z.string().describe("First draft name (e.g., 'Main')"),
+    second: z.string().describe("Second draft name (e.g., 'Plan B')"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ first, second, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const drafts = await listDrafts(env, userId, scheduleTerm);
+      const selected = [findDraft(drafts, first), findDraft(drafts, second)];
+
+      const missing = [first, second].filter((_, i) => !selected[i]);
+      if (missing.length > 0) {
+        return `No draft named ${missing.map((n) => `"${n}"`).join(" or ")}. Drafts: ${drafts.map((d) => d.name).join(", ")}.`;
+      }
+
+      const [a, b] = await Promise.all(
+        selected.map(async (draft) => ({
+          name: draft!.name,
+          active: draft!.active,
+          ...summarizeSchedule(
+            await attachMeetings(
+              env,
+              await loadDraftCourses(env, userId, draft!)
+            )
+          )
+        }))
+      );
+
+      return {
+        term: scheduleTerm,
+        drafts: [a, b],
+        onlyIn: {
+          [a.name]: a.sections.filter((s) => !b.sections.includes(s)),
+          [b.name]: b.sections.filter((s) => !a.sections.includes(s))
+        }
+      };
+    } catch (error) {
+      return `Error comparing schedules: ${error}`;
+    }
+  }
+});
+
+/**
+ * Watch a closed section and get a chat message when seats open up
+ */
+const watchCourse = tool({
+  description:
+    "Add a closed or waitlisted section to the user's watchlist. After each catalog update the agent re-checks it and posts a message when it opens up or moves to waitlist.",
+  inputSchema: z.object({
+    courseId: z
+      .string()
+      .describe(
+        "The section's course ID from search results (e.g., 'CS-2110-001-12345')"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ courseId, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const watchTerm = resolveTerm(env, term);
+      const course = await env.DB.prepare(
+        "SELECT * FROM courses WHERE id = ? AND term = ?"
+      )
+        .bind(courseId, watchTerm)
+        .first<Course>();
+
+      if (!course) {
+        return `Error: Course ${courseId} not found in the ${watchTerm} catalog.`;
+      }
+
+      const label = `${course.subject} ${course.catalog_nbr} ${course.component} ${course.section}`;
+
+      if (course.status === "O") {
+        return `${label} is already open, so there's nothing to watch. Add it with addCourseToSchedule.`;
+      }
+
+      await env.DB.prepare(
+        `INSERT INTO course_watches (user_id, term, course_id, last_status)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id, term, course_id) DO UPDATE SET last_status = excluded.last_status`
+      )
+        .bind(userId, watchTerm, courseId, course.status)
+        .run();
+
+      return `👀 Watching ${label} (${watchTerm}), currently ${STATUS_LABELS[course.status] || course.status}. I'll post a message here when it opens up or moves to waitlist.`;
+    } catch (error) {
+      return `Error watching course: ${error}`;
+    }
+  }
+});
+
+/**
+ * Stop watching a section
+ */
+const unwatchCourse = tool({
+  description: "Remove a section from the user's watchlist",
+  inputSchema: z.object({
+    courseId: z
+      .string()
+      .describe("The section's course ID (e.g., 'CS-2110-001-12345')"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ courseId, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const watchTerm = resolveTerm(env, term);
+      const result = await env.DB.prepare(
+        "DELETE FROM course_watches WHERE user_id = ? AND term = ? AND course_id = ?"
+      )
+        .bind(userId, watchTerm, courseId)
+        .run();
+
+      if (result.meta.changes === 0) {
+        return `Course ${courseId} is not on your ${watchTerm} watchlist.`;
+      }
+
+      return `Stopped watching course ${courseId} in ${watchTerm}.`;
+    } catch (error) {
+      return `Error removing watch: ${error}`;
+    }
+  }
+});
+
+/**
+ * Export the user's schedule as an iCalendar (.ics) file
+ */
+const exportScheduleICS = tool({
+  description:
+    "Export the user's schedule as an iCalendar (.ics) file they can import into Google Calendar, Apple Calendar or Outlook. Call this when the user wants their schedule in their phone or calendar app.",
+  inputSchema: z.object({
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+      const calendar = getAcademicTerm(scheduleTerm);
+
+      if (!calendar) {
+        return `Error: No academic calendar is configured for ${scheduleTerm}, so class dates can't be exported.`;
+      }
+
+      const { eventCount, courseCount, skipped } = await buildScheduleICS(
+        env,
+        userId,
+        calendar
+      );
+
+      if (courseCount === 0) {
+        return `Your ${scheduleTerm} schedule is empty. Add courses with addCourseToSchedule before exporting.`;
+      }
+
+      let response = `📆 Your ${scheduleTerm} schedule is ready: [Download ${scheduleTerm} schedule (.ics)](/schedule/${userId}.ics?term=${scheduleTerm})\n\n`;
+      response += `${eventCount} recurring events from ${calendar.startDate} to ${calendar.endDate}, skipping ${calendar.breaks.map((academicBreak) => academicBreak.name).join(", ")}.`;
+
+      if (skipped.length > 0) {
+        response += `\n\nNot exported (no fixed meeting time):\n${skipped.map((label) => `- ${label}`).join("\n")}`;
+      }
+
+      return response;
+    } catch (error) {
+      console.error("[exportScheduleICS] Error:", error);
+      return `Error exporting schedule: ${error}`;
+    }
+  }
+});
+
+/**
+ * Generate conflict-free schedules for a list of courses
+ */
+const generateSchedules = tool({
+  description:
+    "Generate conflict-free schedules for a list of courses by trying every combination of their LEC/DIS/LAB sections, ranked by the student's time preferences",
+  inputSchema: z.object({
+    courses: z
+      .array(z.string())
+      .min(1)
+      .describe("Courses to schedule (e.g., ['CS 2110', 'MATH 2940'])"),
+    earliestStart: z
+      .string()
+      .regex(TIME_PATTERN, "Use a time like '10:00AM'")
+      .optional()
+      .describe("Prefer no classes before this time (e.g., '10:00AM')"),
+    latestEnd: z
+      .string()
+      .regex(TIME_PATTERN, "Use a time like '05:00PM'")
+      .optional()
+      .describe("Prefer no classes ending after this time (e.g., '05:00PM')"),
+    daysOff: z
+      .string()
+      .optional()
+      .describe("Day codes to keep free (e.g., 'F' for Fridays off)"),
+    openOnly: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Only use sections that are currently open"),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      ),
+    limit: z
+      .number()
+      .optional()
+      .default(5)
+      .describe("Maximum number of schedules to return")
+  }),
+  execute: async ({
+    courses,
+    earliestStart,
+    latestEnd,
+    daysOff,
+    openOnly,
+    term,
+    limit
+  }) => {
+    try {
+      const { agent } = getCurrentAgent<Chat>();
+      const env = agent!.getEnv();
+      const scheduleTerm = resolveTerm(env, term);
+
+      const sectionsByCourse: ScheduleSection[][] = [];
+      const missing: string[] = [];
+
+      for (const code of courses) {
+        const parsed = parseCourseCode(code);
+        if (!parsed) {
+          missing.push(code);
+          continue;
+        }
+
+        const sections = await env.DB.prepare(
+          `SELECT * FROM courses
+           WHERE term = ? AND subject = ? AND catalog_nbr = ?
+           ${openOnly ? "AND status = 'O'" : ""}
+           ORDER BY component, section`
+        )
+          .bind(scheduleTerm, parsed.subject, parsed.catalogNbr)
+          .all<Course & SectionInfo>();
+
+        if (sections.results.length === 0) {
+          missing.push(code);
+          continue;
+        }
+
+        sectionsByCourse.push(await attachMeetings(env, sections.results));
+      }
+
+      if (missing.length > 0) {
+        return `No ${openOnly ? "open " : ""}sections found in ${scheduleTerm} for: ${missing.join(", ")}`;
+      }
+
+      console.log(
+        `[generateSchedules] Enumerating sections for ${courses.join(", ")}`
+      );
+
+      const { schedules, examined, truncated } = enumerateSchedules(
+        sectionsByCourse,
+        { earliestStart, latestEnd, daysOff },
+        limit
+      );
+
+      if (schedules.length === 0) {
+        return `No conflict-free combination of sections exists for ${courses.join(", ")} in ${scheduleTerm}.`;
+      }
+
+      return {
+        term: scheduleTerm,
+        schedulesCompared: examined,
+        truncated,
+        ...(truncated
+          ? {
+              note: `Stopped early after comparing ${examined} schedules, so a better one may exist. Try openOnly or fewer courses for a complete search.`
+            }
+          : {}),
+        schedules: schedules.map((schedule, idx) => ({
+          rank: idx + 1,
+          courseIds: schedule.sections.map((section) => section.id),
+          daysOnCampus: schedule.daysOnCampus,
+          preferenceViolations: schedule.violations,
+          sections: schedule.sections.map((section) => ({
+            id: section.id,
+            course: `${section.subject} ${section.catalog_nbr}`,
+            component: section.component,
+            section: section.section,
+            status: section.status,
+            meetings: section.parsedMeetings.map((meeting) => meeting.raw)
+          }))
+        }))
+      };
+    } catch (error) {
+      console.error("[generateSchedules] Error:", error);
+      return `Error generating schedules: ${error}`;
+    }
+  }
+});
+
+/**
+ * Remove a course, or some of its sections, from the user's schedule
+ */
+const removeCourseFromSchedule = tool({
+  description:
+    "Remove sections from the user's schedule: one section by its course ID, every section of a course by its code, or only one component (e.g. just the discussion). Optionally add a replacement section in the same transaction; a replacement that conflicts with the schedule is only previewed unless confirm is true.",
+  inputSchema: z.object({
+    course: z
+      .string()
+      .describe(
+        "A section's course ID (as passed to addCourseToSchedule), or a course code like 'CS 2110' to remove all its sections"
+      ),
+    component: z
+      .string()
+      .optional()
+      .describe(
+        "With a course code, only remove this component (e.g., 'DIS', 'LAB')"
+      ),
+    replaceWith: z
+      .string()
+      .optional()
+      .describe(
+        "Course ID of a section of the same course to add in place of the removed one(s)"
+      ),
+    confirm: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Add a replacement that causes time conflicts. Only set after the student has seen the conflicts and accepted them"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ course, component, replaceWith, confirm, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+
+      const scheduled = (
+        await env.DB.prepare(
+          `SELECT c.*, us.id AS schedule_row_id
+           FROM user_schedules us
+           JOIN courses c ON c.id = us.course_id AND c.term = us.term
+           WHERE us.user_id = ? AND us.term = ?`
+        )
+          .bind(userId, scheduleTerm)
+          .all<Course & SectionInfo & { schedule_row_id: number }>()
+      ).results;
+
+      // A full course ID names one section; otherwise match the course code
+      let targets = scheduled.filter(
+        (s) => s.id.toLowerCase() === course.trim().toLowerCase()
+      );
+      if (targets.length === 0) {
+        const parsed = parseCourseCode(course);
+        if (!parsed) {
+          return `"${course}" is not a course ID or course code. Use a section's course ID or a code like "CS 2110".`;
+        }
+        targets = scheduled.filter(
+          (s) =>
+            s.subject === parsed.subject &&
+            s.catalog_nbr === parsed.catalogNbr &&
+            (!component || s.component === component.toUpperCase())
+        );
+      }
+
+      if (targets.length === 0) {
+        return `${component ? `No ${component.toUpperCase()} section of ` : ""}${course} was not in your ${scheduleTerm} schedule.`;
+      }
+
+      const { subject, catalog_nbr } = targets[0];
+      const code = `${subject} ${catalog_nbr}`;
+      const remaining = scheduled.filter(
+        (s) =>
+          s.subject === subject &&
+          s.catalog_nbr === catalog_nbr &&
+          !targets.includes(s)
+      );
+
+      let replacement: (Course & SectionInfo) | null = null;
+      if (replaceWith) {
+        replacement = await env.DB.prepare(
+          "SELECT * FROM courses WHERE id = ? AND term = ?"
+        )
+          .bind(replaceWith, scheduleTerm)
+          .first<Course & SectionInfo>();
+
+        if (!replacement) {
+          return `Error: Course ${replaceWith} not found in the ${scheduleTerm} catalog.`;
+        }
+        if (
+          replacement.subject !== subject ||
+          replacement.catalog_nbr !== catalog_nbr
+        ) {
+          return `Error: ${sectionLabel(replacement)} is not a section of ${code}.`;
+        }
+        if (remaining.some((s) => s.id === replacement!.id)) {
+          return `Error: ${sectionLabel(replacement)} is already in your schedule.`;
+        }
+        if (!remaining.every((s) => sectionsCompatible(s, replacement!))) {
+          return `Error: ${sectionLabel(replacement)} isn't linked to ${remaining.map(sectionLabel).join(", ")}, so it can't be taken with them.`;
+        }
+        const check = checkEnrollment([], [...remaining, replacement]);
+        if (check.duplicates.length > 0) {
+          return `Error: ${sectionLabel(replacement)} can't be taken with ${remaining.map(sectionLabel).join(", ")}.`;
+        }
+
+        // Preview conflicts with the schedule as it would be after the replacement
+        const [withMeetings, ...others] = await attachMeetings(env, [
+          replacement,
+          ...scheduled.filter((s) => !targets.includes(s))
+        ]);
+        const conflicts = others.flatMap((other) =>
+          findConflicts([withMeetings, other])
+        );
+        if (conflicts.length > 0 && !confirm) {
+          return {
+            status: "preview",
+            remove: targets.map(sectionLabel),
+            add: sectionLabel(replacement),
+            meetings: withMeetings.parsedMeetings.map((m) => m.raw),
+            conflicts,
+            message:
+              "Nothing has changed yet. Show the student these conflicts and call removeCourseFromSchedule again with confirm: true if they accept."
+          };
+        }
+      }
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `DELETE FROM user_schedules WHERE id IN (${targets.map(() => "?").join(",")})`
+        ).bind(...targets.map((s) => s.schedule_row_id)),
+        ...(replacement
+          ? [
+              env.DB.prepare(
+                `INSERT INTO user_schedules (user_id, term, course_id)
+                 VALUES (?, ?, ?)`
+              ).bind(userId, scheduleTerm, replacement.id)
+            ]
+          : [])
+      ]);
+
+      // Warn when a partial removal leaves the course without a required component
+      let incomplete: string[] = [];
+      const kept = replacement ? [...remaining, replacement] : remaining;
+      if (kept.length > 0) {
+        const allSections = (
+          await env.DB.prepare(
+            "SELECT * FROM courses WHERE term = ? AND subject = ? AND catalog_nbr = ?"
+          )
+            .bind(scheduleTerm, subject, catalog_nbr)
+            .all<SectionInfo>()
+        ).results;
+        incomplete = checkEnrollment(allSections, kept).missing;
+      }
+
+      return {
+        term: scheduleTerm,
+        removed: targets.map((s) => ({
+          courseId: s.id,
+          section: sectionLabel(s)
+        })),
+        added: replacement
+          ? { courseId: replacement.id, section: sectionLabel(replacement) }
+          : undefined,
+        stillScheduled: kept.map(sectionLabel),
+        warning:
+          incomplete.length > 0
+            ? `${code} no longer has a ${incomplete.join(" or ")} section; add one or remove the rest of the course.`
+            : undefined
+      };
+    } catch (error) {
+      return `Error removing course: ${error}`;
+    }
+  }
+});
+
+/**
+ * Swap a scheduled section for another section of the same component
+ */
+const swapSection = tool({
+  description:
+    "Swap one of the user's scheduled sections (e.g. a discussion or lab) for another section of the same component. Without confirm it previews the conflicts the swap would cause and lists every alternative section that fits the current schedule; with confirm: true it performs the swap in one transaction.",
+  inputSchema: z.object({
+    course: z
+      .string()
+      .describe(
+        "Course ID of the scheduled section to replace, or a course code like 'CS 2110' together with component"
+      ),
+    component: z
+      .string()
+      .optional()
+      .describe(
+        "Component to swap when course is a course code (e.g., 'DIS', 'LAB')"
+      ),
+    targetSection: z
+      .string()
+      .optional()
+      .describe(
+        "Course ID of the section to switch to; omit to just list alternatives"
+      ),
+    confirm: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Perform the swap. Only set after the student has seen the preview and accepted it"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term code (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ course, component, targetSection, confirm, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const scheduleTerm = resolveTerm(env, term);
+
+      const scheduled = await attachMeetings(
+        env,
+        (
+          await env.DB.prepare(
+            `SELECT c.*, us.id AS schedule_row_id, us.notes AS schedule_notes
+             FROM user_schedules us
+             JOIN courses c ON c.id = us.course_id AND c.term = us.term
+             WHERE us.user_id = ? AND us.term = ?`
+          )
+            .bind(userId, scheduleTerm)
+            .all<
+              Course &
+                SectionInfo & {
+                  schedule_row_id: number;
+                  schedule_notes: string | null;
+                }
+            >()
+        ).results
+      );
+
+      // Find the scheduled section being replaced
+      let current = scheduled.find(
+        (s) => s.id.toLowerCase() === course.trim().toLowerCase()
+      );
+      if (!current) {
+        const parsed = parseCourseCode(course);
+        if (!parsed) {
+          return `"${course}" is not a course ID or course code. Use a section's course ID or a code like "CS 2110".`;
+        }
+        const matches = scheduled.filter(
+          (s) =>
+            s.subject === parsed.subject &&
+            s.catalog_nbr === parsed.catalogNbr &&
+            (!component || s.component === component.toUpperCase())
+        );
+        if (matches.length > 1) {
+          return `You have ${matches.map(sectionLabel).join(", ")} scheduled. Say which component to swap.`;
+        }
+        current = matches[0];
+      }
+      if (!current) {
+        return `${course}${component ? ` ${component.toUpperCase()}` : ""} is not in your ${scheduleTerm} schedule.`;
+      }
+
+      const others = scheduled.filter((s) => s.id !== current.id);
+      const sameCourse = others.filter(
+        (s) =>
+          s.subject === current.subject && s.catalog_nbr === current.catalog_nbr
+      );
+      const allSections = await attachMeetings(
+        env,
+        (
+          await env.DB.prepare(
+            `SELECT * FROM courses
+             WHERE term = ? AND subject = ? AND catalog_nbr = ? AND component = ?
+             ORDER BY section`
+          )
+            .bind(
+              scheduleTerm,
+              current.subject,
+              current.catalog_nbr,
+              current.component
+            )
+            .all<Course & SectionInfo>()
+        ).results
+      );
+
+      const candidates = sectionOptions(
+        allSections,
+        sameCourse,
+        current.component!
+      ).filter((s) => s.id !== current.id);
+      const alternatives = sectionsThatFit(candidates, others).map(
+        (candidate) => ({
+          courseId: candidate.id,
+          section: sectionLabel(candidate),
+          meetings: candidate.parsedMeetings.map((m) => m.raw),
+          status: STATUS_LABELS[candidate.status] || candidate.status
+        })
+      );
+
+      if (!targetSection) {
+        return {
+          status: "alternatives",
+          current: sectionLabel(current),
+          alternatives,
+          conflictingSections: candidates.length - alternatives.length
+        };
+      }
+
+      const target = allSections.find((s) => s.id === targetSection);
+      if (!target) {
+        return `Error: ${targetSection} is not a ${current.component} section of ${current.subject} ${current.catalog_nbr} in ${scheduleTerm}.`;
+      }
+      if (target.id === current.id) {
+        return `${sectionLabel(target)} is already in your schedule.`;
+      }
+      if (!candidates.includes(target)) {
+        return `Error: ${sectionLabel(target)} isn't linked to ${sameCourse.map(sectionLabel).join(", ")}, so it can't be taken with them.`;
+      }
+
+      // Preview every conflict in the schedule as it would be after the swap
+      const conflicts = findConflicts([target, ...others]);
+
+      if (!confirm) {
+        return {
+          status: "preview",
+          from: sectionLabel(current),
+          to: sectionLabel(target),
+          meetings: target.parsedMeetings.map((m) => m.raw),
+          seatStatus: STATUS_LABELS[target.status] || target.status,
+          conflicts,
+          alternatives,
+          message:
+            "Nothing has changed yet. Show the student this preview and call swapSection again with confirm: true if they accept."
+        };
+      }
+
+      await env.DB.batch([
+        env.DB.prepare("DELETE FROM user_schedules WHERE id = ?").bind(
+          current.schedule_row_id
+        ),
+        env.DB.prepare(
+          `INSERT INTO user_schedules (user_id, term, course_id, notes)
+           VALUES (?, ?, ?, ?)`
+        ).bind(userId, scheduleTerm, target.id, current.schedule_notes)
+      ]);
+
+      return {
+        status: "swapped",
+        from: sectionLabel(current),
+        to: sectionLabel(target),
+        conflicts
+      };
+    } catch (error) {
+      return `Error swapping sections: ${error}`;
+    }
+  }
+});
+
+/**
+ * Record a course the student has already completed
+ */
+const addCompletedCourse = tool({
+  description:
+    "Save a course the student has already completed so searches and eligibility checks account for it",
+  inputSchema: z.object({
+    course: z.string().describe("The completed course (e.g., 'CS 2110')"),
+    term: z
+      .string()
+      .optional()
+      .describe("Term the course was taken (e.g., 'FA25'), if known"),
+    grade: z.string().optional().describe("Grade received, if known")
+  }),
+  execute: async ({ course, term, grade }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const parsed = parseCourseCode(course);
+      if (!parsed) {
+        return `"${course}" is not a valid course code. Use a format like "CS 2110".`;
+      }
+
+      const takenTerm = term ? resolveTerm(env, term) : null;
+
+      await env.DB.prepare(
+        `INSERT INTO user_completed_courses (user_id, subject, catalog_nbr, term, grade)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, subject, catalog_nbr) DO UPDATE SET
+           term = COALESCE(excluded.term, term),
+           grade = COALESCE(excluded.grade, grade)`
+      )
+        .bind(
+          userId,
+          parsed.subject,
+          parsed.catalogNbr,
+          takenTerm,
+          grade || null
+        )
+        .run();
+
+      return `✅ Recorded ${parsed.subject} ${parsed.catalogNbr} as completed.`;
+    } catch (error) {
+      console.error("[addCompletedCourse] Error:", error);
+      return `Error recording completed course: ${error}`;
+    }
+  }
+});
+
+/**
+ * List the courses the student has completed
+ */
+const listCompletedCourses = tool({
+  description: "List the courses the student has recorded as completed",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    const result = await env.DB.prepare(
+      `SELECT subject, catalog_nbr, term, grade FROM user_completed_courses
+       WHERE user_id = ?
+       ORDER BY subject, catalog_nbr`
+    )
+      .bind(userId)
+      .all<{
+        subject: string;
+        catalog_nbr: string;
+        term: string | null;
+        grade: string | null;
+      }>();
+
+    if (result.results.length === 0) {
+      return "No completed courses recorded yet. Use addCompletedCourse or importTranscript to add them.";
+    }
+
+    return {
+      count: result.results.length,
+      courses: result.results.map((row) => ({
+        course: `${row.subject} ${row.catalog_nbr}`,
+        term: row.term,
+        grade: row.grade
+      }))
+    };
+  }
+});
+
+/**
+ * Remove a course from the student's completed courses
+ */
+const removeCompletedCourse = tool({
+  description: "Remove a course from the student's completed courses",
+  inputSchema: z.object({
+    course: z.string().describe("The course to remove (e.g., 'CS 2110')")
+  }),
+  execute: async ({ course }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    const parsed = parseCourseCode(course);
+    if (!parsed) {
+      return `"${course}" is not a valid course code. Use a format like "CS 2110".`;
+    }
+
+    const result = await env.DB.prepare(
+      `DELETE FROM user_completed_courses
+       WHERE user_id = ? AND subject = ? AND catalog_nbr = ?`
+    )
+      .bind(userId, parsed.subject, parsed.catalogNbr)
+      .run();
+
+    if (result.meta.changes === 0) {
+      return `${parsed.subject} ${parsed.catalogNbr} was not in your completed courses.`;
+    }
+
+    return `Removed ${parsed.subject} ${parsed.catalogNbr} from your completed courses.`;
+  }
+});
+
+/**
+ * Import completed courses from pasted transcript text
+ */
+const importTranscript = tool({
+  description:
+    "Import completed courses from transcript text the student pasted into the chat. Failed, withdrawn and incomplete courses are skipped.",
+  inputSchema: z.object({
+    text: z.string().describe("The pasted transcript text, unmodified")
+  }),
+  execute: async ({ text }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    const courses = parseTranscript(text);
+    if (courses.length === 0) {
+      return "No courses found in the transcript text. Each course should appear on its own line, e.g. 'CS 2110 Object-Oriented Programming 4 A-'.";
+    }
+
+    await env.DB.batch(
+      courses.map((course) =>
+        env.DB.prepare(
+          `INSERT INTO user_completed_courses (user_id, subject, catalog_nbr, term, grade)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(user_id, subject, catalog_nbr) DO UPDATE SET
+             term = COALESCE(excluded.term, term),
+             grade = COALESCE(excluded.grade, grade)`
+        ).bind(
+          userId,
+          course.subject,
+          course.catalogNbr,
+          course.term,
+          course.grade
+        )
+      )
+    );
+
+    return {
+      imported: courses.length,
+      courses: courses.map((course) => ({
+        course: `${course.subject} ${course.catalogNbr}`,
+        term: course.term,
+        grade: course.grade
+      }))
+    };
+  }
+});
+
+/**
+ * Evaluate the student's progress toward a major or minor
+ */
+const checkDegreeProgress = tool({
+  description:
+    "Check the student's progress toward a major or minor using their completed courses and courses in their schedules. Lists satisfied and remaining requirements, with courses offered in the term that would count toward each remaining one. Call without a program to list the available programs.",
+  inputSchema: z.object({
+    program: z
+      .string()
+      .optional()
+      .describe(
+        "Program ID or name (e.g., 'cs-major', 'Computer Science'). Omit to list available programs"
+      ),
+    term: z
+      .string()
+      .optional()
+      .describe(
+        "Term to suggest candidate courses from (e.g., 'FA26', 'SP27'). Defaults to the current term"
+      )
+  }),
+  execute: async ({ program, term }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+    try {
+      const searchTerm = resolveTerm(env, term);
+
+      if (!program) {
+        const programs = await listDegreePrograms(env);
+        return programs.length > 0
+          ? { programs }
+          : "No degree requirements have been loaded yet.";
+      }
+
+      const definition = await findDegreeProgram(env, program);
+      if (!definition) {
+        const programs = await listDegreePrograms(env);
+        return `No program matching "${program}". Available programs: ${programs.map((p) => `${p.name} (${p.id})`).join(", ") || "none"}.`;
+      }
+
+      const taken = await loadTakenCourses(env, userId);
+      const progress = evaluateDegreeProgress(definition, taken);
+
+      const requirements = await Promise.all(
+        progress.map(async (requirement, i) => ({
+          ...requirement,
+          candidates: requirement.plannedSatisfied
+            ? []
+            : await findRequirementCandidates(
+                env,
+                searchTerm,
+                definition.requirements[i],
+                requirement,
+                taken
+              )
+        }))
+      );
+
+      return {
+        program: definition.name,
+        type: definition.type,
+        term: searchTerm,
+        completedCourses: taken.filter((c) => c.status === "completed").length,
+        scheduledCourses: taken.filter((c) => c.status === "scheduled").length,
+        satisfied: requirements.filter((r) => r.satisfied).length,
+        remaining: requirements.filter((r) => !r.plannedSatisfied).length,
+        requirements
+      };
+    } catch (error) {
+      console.error("[checkDegreeProgress] Error:", error);
+      return `Error checking degree progress: ${error}`;
+    }
+  }
+});
+
+/**
+ * Create or adjust the student's multi-semester plan
+ */
+const createPlan = tool({
+  description:
+    "Create the student's multi-semester (e.g. four-year) plan, or change its start term, length or credit limit. Terms alternate fall and spring; the plan's current term is the student's schedule.",
+  inputSchema: z.object({
+    startTerm: z
+      .string()
+      .optional()
+      .describe(
+        "First fall or spring term of the plan (e.g., 'FA26'). Defaults to the current term"
+      ),
+    terms: z
+      .number()
+      .int()
+      .min(1)
+      .max(12)
+      .optional()
+      .default(DEFAULT_PLAN_TERMS)
+      .describe("Number of fall and spring terms (8 for four years)"),
+    maxCredits: z
+      .number()
+      .int()
+      .min(12)
+      .max(30)
+      .optional()
+      .default(DEFAULT_MAX_CREDITS)
+      .describe("Per-term credit limit")
+  }),
+  execute: async ({ startTerm, terms, maxCredits }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const start = resolveTerm(env, startTerm);
+      if (!start.startsWith("FA") && !start.startsWith("SP")) {
+        return `Plans start in a fall or spring term, not ${start}.`;
+      }
+
+      const plan = await env.DB.prepare(
+        `INSERT INTO academic_plans (user_id, start_term, term_count, max_credits)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id) DO UPDATE SET
+           start_term = excluded.start_term,
+           term_count = excluded.term_count,
+           max_credits = excluded.max_credits,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING id`
+      )
+        .bind(userId, start, terms, maxCredits)
+        .first<{ id: number }>();
+
+      // Courses placed in terms the plan no longer covers are dropped
+      const termCodes = planTermCodes(start, terms);
+      const dropped = await env.DB.prepare(
+        `DELETE FROM plan_courses
+         WHERE plan_id = ? AND term NOT IN (${termCodes.map(() => "?").join(",")})
+         RETURNING subject || ' ' || catalog_nbr AS code, term`
+      )
+        .bind(plan!.id, ...termCodes)
+        .all<{ code: string; term: string }>();
+
+      return {
+        terms: termCodes,
+        maxCredits,
+        droppedCourses: dropped.results.map(
+          (row) => `${row.code} (${row.term})`
+        )
+      };
+    } catch (error) {
+      return `Error creating plan: ${error}`;
+    }
+  }
+});
+
+/**
+ * Place a course into a future term of the plan
+ */
+const addCourseToPlan = tool({
+  description:
+    "Place a course into a future term of the student's plan, or move it if it is already planned. Checks prerequisite ordering and the term's credit limit. Courses for the current term go in the schedule with addCourseToSchedule instead.",
+  inputSchema: z.object({
+    course: z.string().describe("Course code (e.g., 'CS 3110')"),
+    term: z.string().describe("Plan term to place it in (e.g., 'SP27')"),
+    credits: z
+      .number()
+      .int()
+      .min(0)
+      .max(12)
+      .optional()
+      .describe("Credits, only needed for courses not in the catalog")
+  }),
+  execute: async ({ course, term, credits }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const plan = await getAcademicPlan(env, userId);
+      if (!plan) {
+        return "The student doesn't have a plan yet. Create one with createPlan first.";
+      }
+
+      const parsed = parseCourseCode(course);
+      if (!parsed) {
+        return `"${course}" is not a valid course code. Use a format like "CS 3110".`;
+      }
+      const code = `${parsed.subject} ${parsed.catalogNbr}`;
+
+      const planTerm = resolveTerm(env, term);
+      const termCodes = planTermCodes(plan.start_term, plan.term_count);
+      if (!termCodes.includes(planTerm)) {
+        return `${planTerm} is not in the plan, which covers ${termCodes.join(", ")}.`;
+      }
+      if (planTerm === env.CURRENT_TERM) {
+        return `${planTerm} is the current term, which comes from the student's schedule. Add a section of ${code} with addCourseToSchedule instead.`;
+      }
+
+      const catalog = (await lookupCatalogCourses(env, [code])).get(code);
+      const courseCredits = credits ?? catalog?.credits;
+      if (courseCredits == null) {
+        return `${code} is not in the catalog. Ask the student how many credits it is and pass credits.`;
+      }
+
+      const previous = await env.DB.prepare(
+        "SELECT term FROM plan_courses WHERE plan_id = ? AND subject = ? AND catalog_nbr = ?"
+      )
+        .bind(plan.id, parsed.subject, parsed.catalogNbr)
+        .first<{ term: string }>();
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `INSERT INTO plan_courses (plan_id, term, subject, catalog_nbr, credits)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(plan_id, subject, catalog_nbr) DO UPDATE SET
+             term = excluded.term,
+             credits = excluded.credits`
+        ).bind(
+          plan.id,
+          planTerm,
+          parsed.subject,
+          parsed.catalogNbr,
+          courseCredits
+        ),
+        env.DB.prepare(
+          "UPDATE academic_plans SET updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+        ).bind(plan.id)
+      ]);
+
+      const planTerms = await loadPlanTerms(env, userId, plan);
+      const issues = validatePlan(
+        planTerms,
+        await getCompletedCourseCodes(env, userId),
+        plan.max_credits
+      );
+
+      return {
+        course: code,
+        title: catalog?.title ?? null,
+        term: planTerm,
+        movedFrom:
+          previous && previous.term !== planTerm ? previous.term : undefined,
+        termCredits: planTerms.find((t) => t.term === planTerm)!.credits,
+        // Problems with this course, its term, or courses that depend on it
+        issues: issues
+          .filter(
+            (issue) =>
+              issue.course === code ||
+              (issue.term === planTerm && !issue.course) ||
+              issue.message.includes(`${code} is planned`)
+          )
+          .map((issue) => issue.message)
+      };
+    } catch (error) {
+      return `Error adding course to plan: ${error}`;
+    }
+  }
+});
+
+/**
+ * Remove a course from the plan
+ */
+const removeCourseFromPlan = tool({
+  description:
+    "Remove a course from the student's plan. Scheduled sections are removed with removeCourseFromSchedule instead.",
+  inputSchema: z.object({
+    course: z.string().describe("Course code (e.g., 'CS 3110')")
+  }),
+  execute: async ({ course }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    const parsed = parseCourseCode(course);
+    if (!parsed) {
+      return `"${course}" is not a valid course code. Use a format like "CS 3110".`;
+    }
+
+    const removed = await env.DB.prepare(
+      `DELETE FROM plan_courses
+       WHERE plan_id = (SELECT id FROM academic_plans WHERE user_id = ?)
+       AND subject = ? AND catalog_nbr = ?
+       RETURNING term`
+    )
+      .bind(userId, parsed.subject, parsed.catalogNbr)
+      .first<{ term: string }>();
+
+    if (!removed) {
+      return `${parsed.subject} ${parsed.catalogNbr} is not in the plan.`;
+    }
+
+    return `Removed ${parsed.subject} ${parsed.catalogNbr} from ${removed.term} in the plan.`;
+  }
+});
+
+/**
+ * Show the plan with its validation issues
+ */
+const viewPlan = tool({
+  description:
+    "Show the student's multi-semester plan as a markdown table (one row per term) or grid (academic years by fall/spring), with credit totals and any prerequisite ordering or credit limit problems.",
+  inputSchema: z.object({
+    format: z
+      .enum(["table", "grid"])
+      .optional()
+      .default("table")
+      .describe(
+        "'table' lists terms in order; 'grid' lays out years by fall and spring"
+      )
+  }),
+  execute: async ({ format }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const env = agent!.getEnv();
+    const userId = agent!.getUserId();
+
+    try {
+      const plan = await getAcademicPlan(env, userId);
+      if (!plan) {
+        return "The student doesn't have a plan yet. Create one with createPlan first.";
+      }
+
+      const terms = await loadPlanTerms(env, userId, plan);
+      const completed = await getCompletedCourseCodes(env, userId);
+      const issues = validatePlan(terms, completed, plan.max_credits);
+
+      return {
+        format,
+        plan:
+          format === "grid" ? formatPlanGrid(terms) : formatPlanTable(terms),
+        maxCredits: plan.max_credits,
+        plannedCredits: terms.reduce((sum, term) => sum + term.credits, 0),
+        completedCourses: completed.size,
+        issues: issues.map((issue) => issue.message)
+      };
+    } catch (error) {
+      return `Error loading plan: ${error}`;
+    }
   }
 });
 
@@ -573,11 +2717,36 @@ const removeCourseFromSchedule = tool({
 export const tools = {
   searchCourses,
   advancedCourseSearch,
+  findCoursesInFreeTime,
   getCourseDetails,
+  getCourseOfferings,
+  getCourseChanges,
+  checkEligibility,
   addCourseToSchedule,
   viewMySchedule,
   removeCourseFromSchedule,
-  checkScheduleConflicts
+  swapSection,
+  checkScheduleConflicts,
+  validateSchedule,
+  listScheduleDrafts,
+  createScheduleDraft,
+  renameScheduleDraft,
+  deleteScheduleDraft,
+  activateScheduleDraft,
+  compareSchedules,
+  watchCourse,
+  unwatchCourse,
+  exportScheduleICS,
+  generateSchedules,
+  addCompletedCourse,
+  listCompletedCourses,
+  removeCompletedCourse,
+  importTranscript,
+  checkDegreeProgress,
+  createPlan,
+  addCourseToPlan,
+  removeCourseFromPlan,
+  viewPlan
 } satisfies ToolSet;
 
 /**
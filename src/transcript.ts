@@ -0,0 +1,64 @@
+/**
+ * Transcript parsing
+ * Extracts completed courses from transcript text pasted into the chat
+ */
+
+/**
+ * A course found on a pasted transcript
+ */
+export interface TranscriptCourse {
+  subject: string;
+  catalogNbr: string;
+  term: string | null; // From the nearest preceding term header (e.g. "Fall 2025" → "FA25")
+  grade: string | null;
+}
+
+const SEASON_CODES: Record<string, string> = {
+  fall: "FA",
+  spring: "SP",
+  summer: "SU",
+  winter: "WI"
+};
+
+const TERM_HEADER_PATTERN = /\b(Fall|Spring|Summer|Winter)\s+(\d{4})\b/i;
+// Season words are excluded so uppercase headers like "FALL 2025" aren't read as courses
+const COURSE_PATTERN =
+  /\b(?!(?:FALL|SPRING|SUMMER|WINTER)\b)([A-Z]{2,}(?:&[A-Z]+)?)\s*(\d{4})\b/;
+const GRADE_PATTERN = /\b([A-D][+-]?|F|S|U|SX|UX|INC|W|R)\s*$/;
+
+/**
+ * Grades that don't count as completing a course; R marks a course still in progress
+ */
+const NOT_COMPLETED_GRADES = new Set(["F", "U", "UX", "W", "INC", "R"]);
+
+/**
+ * Parse pasted transcript text, one course per line
+ * Courses with failing, withdrawn, incomplete or in-progress grades are skipped
+ */
+export function parseTranscript(text: string): TranscriptCourse[] {
+  const courses = new Map<string, TranscriptCourse>();
+  let currentTerm: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const header = line.match(TERM_HEADER_PATTERN);
+    if (header) {
+      currentTerm = `${SEASON_CODES[header[1].toLowerCase()]}${header[2].slice(2)}`;
+    }
+
+    const course = line.match(COURSE_PATTERN);
+    if (!course) continue;
+
+    const grade = line.match(GRADE_PATTERN)?.[1] ?? null;
+    if (grade && NOT_COMPLETED_GRADES.has(grade)) continue;
+
+    const [, subject, catalogNbr] = course;
+    courses.set(`${subject} ${catalogNbr}`, {
+      subject,
+      catalogNbr,
+      term: currentTerm,
+      grade
+    });
+  }
+
+  return Array.from(courses.values());
+}
@@ -0,0 +1,104 @@
+/**
+ * Seat-availability watchlist
+ * Students watch closed sections; after each ingestion, watchers whose sections
+ * changed status get a re-check scheduled in their Chat agent
+ */
+
+import { STATUS_LABELS } from "./course-helpers";
+
+interface WatchedSection {
+  id: number;
+  term: string;
+  course_id: string;
+  last_status: string | null;
+  subject: string;
+  catalog_nbr: string;
+  component: string | null;
+  section: string | null;
+  status: string | null;
+}
+
+/**
+ * Find watches whose section status differs from what the student was last told
+ */
+async function getChangedWatches(
+  env: Env,
+  userId?: string
+): Promise<(WatchedSection & { user_id: string })[]> {
+  const result = await env.DB.prepare(
+    `SELECT w.id, w.user_id, w.term, w.course_id, w.last_status,
+            c.subject, c.catalog_nbr, c.component, c.section, c.status
+     FROM course_watches w
+     JOIN courses c ON c.id = w.course_id AND c.term = w.term
+     WHERE c.status IS NOT w.last_status ${userId ? "AND w.user_id = ?" : ""}
+     ORDER BY w.user_id, w.id`
+  )
+    .bind(...(userId ? [userId] : []))
+    .all<WatchedSection & { user_id: string }>();
+
+  return result.results;
+}
+
+/**
+ * Schedule a watch re-check for every user whose watched sections changed status
+ * Runs after each ingestion
+ */
+export async function notifyWatchers(env: Env): Promise<number> {
+  const changed = await getChangedWatches(env);
+  const userIds = [...new Set(changed.map((watch) => watch.user_id))];
+
+  for (const userId of userIds) {
+    try {
+      const chat = env.Chat.get(env.Chat.idFromString(userId));
+      await chat.scheduleWatchCheck();
+    } catch (error) {
+      console.error(`[watches] Failed to schedule check for ${userId}:`, error);
+    }
+  }
+
+  return userIds.length;
+}
+
+/**
+ * Re-check a user's watched sections
+ * Returns a message for each section that opened up or moved to waitlist; opened
+ * sections stop being watched, and every watch records the status it was checked at
+ */
+export async function checkWatchedSections(
+  env: Env,
+  userId: string
+): Promise<string[]> {
+  const changed = await getChangedWatches(env, userId);
+  const messages: string[] = [];
+
+  for (const watch of changed) {
+    const label = [
+      watch.subject,
+      watch.catalog_nbr,
+      watch.component,
+      watch.section
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    if (watch.status === "O" || watch.status === "W") {
+      messages.push(
+        `${label} (${watch.term}, course ID ${watch.course_id}) is now ${STATUS_LABELS[watch.status]}`
+      );
+    }
+
+    if (watch.status === "O") {
+      await env.DB.prepare("DELETE FROM course_watches WHERE id = ?")
+        .bind(watch.id)
+        .run();
+    } else {
+      await env.DB.prepare(
+        "UPDATE course_watches SET last_status = ? WHERE id = ?"
+      )
+        .bind(watch.status, watch.id)
+        .run();
+    }
+  }
+
+  return messages;
+}
@@ -0,0 +1,112 @@
+/**
+ * Working set of discussed courses
+ * Tracks the courses search and details tools surfaced so references like
+ * "the second one" resolve without re-reading earlier tool output
+ */
+
+import type { Course } from "./course-helpers";
+import type { WorkingSet, WorkingSetCourse } from "./shared";
+
+/**
+ * Earlier courses kept once they drop out of the latest results
+ */
+const MAX_EARLIER_COURSES = 30;
+
+/**
+ * Latest results listed in the model's context block
+ */
+const MAX_CONTEXT_RESULTS = 20;
+
+export const EMPTY_WORKING_SET: WorkingSet = {
+  source: null,
+  query: null,
+  results: [],
+  earlier: []
+};
+
+function toWorkingSetCourse(course: Course): WorkingSetCourse {
+  return {
+    courseId: course.id,
+    term: course.term,
+    code: `${course.subject} ${course.catalog_nbr}`,
+    title: course.title,
+    component: course.component ?? null,
+    section: course.section ?? null,
+    meetings: course.meetings ? (JSON.parse(course.meetings) as string[]) : [],
+    status: course.status ?? null
+  };
+}
+
+function courseKey(course: WorkingSetCourse): string {
+  return `${course.term}:${course.courseId}`;
+}
+
+/**
+ * Replace the latest results, moving the previous ones into earlier
+ */
+export function updateWorkingSet(
+  current: WorkingSet,
+  source: string,
+  query: string,
+  courses: Course[]
+): WorkingSet {
+  const results = courses.map(toWorkingSetCourse);
+  const latestKeys = new Set(results.map(courseKey));
+  const seen = new Set<string>();
+
+  const earlier = [...current.results, ...current.earlier].filter((course) => {
+    const key = courseKey(course);
+    if (latestKeys.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    source,
+    query,
+    results,
+    earlier: earlier.slice(0, MAX_EARLIER_COURSES)
+  };
+}
+
+function formatCourse(course: WorkingSetCourse): string {
+  const section = [course.component, course.section].filter(Boolean).join(" ");
+  const meetings =
+    course.meetings.length > 0 ? ` — ${course.meetings.join("; ")}` : "";
+  return `${course.code}${section ? ` ${section}` : ""}: ${course.title} (ID ${course.courseId}, ${course.term})${meetings}`;
+}
+
+/**
+ * Compact context block describing the working set, or null when it is empty
+ * The block carries its own instructions so they sit next to the courses
+ */
+export function formatWorkingSetContext(workingSet: WorkingSet): string | null {
+  if (workingSet.results.length === 0 && workingSet.earlier.length === 0) {
+    return null;
+  }
+
+  const lines = [
+    "WORKING SET (courses surfaced in this conversation):",
+    '- Resolve references against this list and use its course IDs directly: ordinals count down the latest results ("the second one" is Latest results #2), and "that lab" or "the CS one" means the matching course',
+    "- Courses under Earlier were surfaced before the latest results; re-run getCourseDetails only when you need details this block doesn't include"
+  ];
+
+  if (workingSet.results.length > 0) {
+    lines.push(
+      `Latest results from ${workingSet.source} for "${workingSet.query}":`,
+      ...workingSet.results
+        .slice(0, MAX_CONTEXT_RESULTS)
+        .map((course, i) => `${i + 1}. ${formatCourse(course)}`)
+    );
+  }
+
+  if (workingSet.earlier.length > 0) {
+    lines.push(
+      `Earlier: ${workingSet.earlier
+        .map((course) => `${course.code} (ID ${course.courseId})`)
+        .join(", ")}`
+    );
+  }
+
+  return lines.join("\n");
+}
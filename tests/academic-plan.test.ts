@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatPlanGrid,
+  lookupCatalogCourses,
+  planTermCodes,
+  validatePlan,
+  type PlannedCourse,
+  type PlanTerm
+} from "../src/academic-plan";
+import { parsePrerequisites } from "../src/prerequisites";
+import { fakeEnv } from "./fake-d1";
+
+function course(code: string, credits = 4, prereqs = ""): PlannedCourse {
+  return {
+    code,
+    title: null,
+    credits,
+    source: "plan",
+    requisites: parsePrerequisites(prereqs)
+  };
+}
+
+function term(code: string, courses: PlannedCourse[]): PlanTerm {
+  return {
+    term: code,
+    courses,
+    credits: courses.reduce((sum, c) => sum + c.credits, 0)
+  };
+}
+
+describe("planTermCodes", () => {
+  it("alternates fall and spring terms", () => {
+    expect(planTermCodes("FA26", 4)).toEqual(["FA26", "SP27", "FA27", "SP28"]);
+    expect(planTermCodes("SP27", 2)).toEqual(["SP27", "FA27"]);
+  });
+});
+
+describe("validatePlan", () => {
+  it("flags prerequisites planned in the same or a later term", () => {
+    const issues = validatePlan(
+      [
+        term("FA26", [
+          course("CS 3110", 4, "Prerequisite: CS 2110."),
+          course("CS 2800"),
+          course("MATH 1920")
+        ]),
+        term("SP27", [
+          course("CS 2110"),
+          course("CS 4820"),
+          course("PHYS 1112")
+        ])
+      ],
+      new Set(),
+      20
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ term: "FA26", type: "prerequisite" });
+    expect(issues[0].message).toContain("CS 2110 is planned for SP27");
+  });
+
+  it("accepts completed prerequisites and same-term corequisites", () => {
+    const issues = validatePlan(
+      [
+        term("FA26", [
+          course("CS 3110", 4, "Prerequisite: CS 2110. Corequisite: CS 2800."),
+          course("CS 2800"),
+          course("MATH 2940"),
+          course("PHYS 2213")
+        ])
+      ],
+      new Set(["CS 2110"]),
+      20
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("checks per-term credit limits", () => {
+    const issues = validatePlan(
+      [
+        term("FA26", [
+          course("A 1000", 8),
+          course("B 1000", 8),
+          course("C 1000", 8)
+        ]),
+        term("SP27", [course("D 1000", 4)])
+      ],
+      new Set(),
+      20
+    );
+
+    expect(issues.map((issue) => issue.type)).toEqual([
+      "over_credit_limit",
+      "under_full_time"
+    ]);
+  });
+});
+
+describe("formatPlanGrid", () => {
+  it("groups fall and spring terms by academic year", () => {
+    const grid = formatPlanGrid([
+      term("FA26", [course("CS 2110")]),
+      term("SP27", []),
+      term("FA27", [])
+    ]);
+
+    expect(grid.split("\n")).toHaveLength(4);
+    expect(grid).toContain("| 2026–27 | **FA26** (4 cr)<br>CS 2110 | **SP27**");
+  });
+});
+
+describe("lookupCatalogCourses", () => {
+  it("looks up more codes than fit in one D1 query", async () => {
+    const { env, db } = fakeEnv((_sql, params) =>
+      params.map((code) => ({
+        code,
+        title: "Course",
+        credits: 3,
+        prerequisites: null,
+        prerequisites_parsed: null
+      }))
+    );
+    const codes = Array.from({ length: 150 }, (_, i) => `CS ${1000 + i}`);
+
+    const catalog = await lookupCatalogCourses(env, codes);
+
+    expect(db.queries).toHaveLength(2);
+    expect(catalog.size).toBe(150);
+  });
+});
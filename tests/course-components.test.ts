@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkEnrollment,
+  loadSectionChoices,
+  sectionOptions,
+  sectionsThatFit,
+  type SectionInfo
+} from "../src/course-components";
+import { attachMeetings, parseMeeting } from "../src/course-helpers";
+import { fakeEnv } from "./fake-d1";
+
+function section(
+  component: string,
+  number: string,
+  extra: Partial<SectionInfo> = {}
+): SectionInfo {
+  return {
+    id: `${component}-${number}`,
+    subject: "CS",
+    catalog_nbr: "2110",
+    component,
+    section: number,
+    enroll_group: null,
+    assoc_class: null,
+    components_required: null,
+    components_optional: null,
+    ...extra
+  };
+}
+
+describe("checkEnrollment", () => {
+  const lecture = section("LEC", "001");
+  const discussions = [section("DIS", "201"), section("DIS", "202")];
+  const all = [lecture, ...discussions];
+
+  it("requires every offered component when none are declared", () => {
+    expect(checkEnrollment(all, [lecture]).missing).toEqual(["DIS"]);
+    expect(checkEnrollment(all, [lecture, discussions[0]]).missing).toEqual([]);
+  });
+
+  it("flags a second section of the same component", () => {
+    expect(checkEnrollment(all, [lecture, ...discussions]).duplicates).toEqual([
+      "DIS"
+    ]);
+  });
+
+  it("uses declared required components", () => {
+    const declared = all.map((s) => ({
+      ...s,
+      components_required: JSON.stringify(["LEC"])
+    }));
+    expect(checkEnrollment(declared, [declared[0]]).missing).toEqual([]);
+  });
+});
+
+describe("sectionOptions", () => {
+  it("only offers sections linked to the chosen lecture", () => {
+    const all = [
+      section("LEC", "001", { enroll_group: 1, assoc_class: "1" }),
+      section("LEC", "002", { enroll_group: 1, assoc_class: "2" }),
+      section("DIS", "201", { enroll_group: 1, assoc_class: "1" }),
+      section("DIS", "202", { enroll_group: 1, assoc_class: "2" }),
+      section("DIS", "301", { enroll_group: 2 })
+    ];
+
+    expect(sectionOptions(all, [all[0]], "DIS").map((s) => s.section)).toEqual([
+      "201"
+    ]);
+    expect(checkEnrollment(all, [all[0], all[3]]).incompatible).toEqual([
+      ["CS 2110 LEC 001", "CS 2110 DIS 202"]
+    ]);
+  });
+});
+
+describe("loadSectionChoices", () => {
+  it("lists every discussion of a course with more than 50", async () => {
+    const lecture = { ...section("LEC", "001"), term: "FA26", title: "" };
+    const discussions = Array.from({ length: 60 }, (_, i) => ({
+      ...section("DIS", String(201 + i)),
+      term: "FA26",
+      title: "",
+      status: "O",
+      meetings: JSON.stringify([`F ${(i % 8) + 8}:00AM-${(i % 8) + 8}:50AM`])
+    }));
+    const { env, db } = fakeEnv(() => []);
+
+    const [choice] = await loadSectionChoices(
+      env,
+      [{ ...lecture, meetings: "[]" }, ...discussions],
+      [lecture],
+      ["DIS"],
+      (option) => option.parsedMeetings[0]?.startMinutes === 480
+    );
+
+    expect(db.queries.every((query) => query.params.length <= 100)).toBe(true);
+    expect(choice.component).toBe("DIS");
+    expect(choice.options).toHaveLength(60);
+    expect(choice.options[0]).toMatchObject({
+      courseId: "DIS-201",
+      section: "CS 2110 DIS 201",
+      meetings: ["F 8:00AM-8:50AM"],
+      status: "open",
+      conflicts: true
+    });
+    expect(choice.options.filter((option) => option.conflicts)).toHaveLength(8);
+  });
+});
+
+describe("sectionsThatFit", () => {
+  it("finds swap alternatives among more than 50 sections", async () => {
+    const discussions = Array.from({ length: 60 }, (_, i) => ({
+      ...section("DIS", String(201 + i)),
+      term: "FA26",
+      title: "",
+      meetings: JSON.stringify([`R ${(i % 4) + 8}:00AM-${(i % 4) + 8}:50AM`])
+    }));
+    const { env } = fakeEnv(() => []);
+    const candidates = await attachMeetings(env, discussions);
+
+    // A lecture Thursdays 10:00-11:15 rules out the 10:00 and 11:00 sections
+    const lecture = {
+      ...section("LEC", "001"),
+      subject: "MATH",
+      catalog_nbr: "1920",
+      title: "",
+      meetings: "[]",
+      parsedMeetings: [parseMeeting("R 10:00AM-11:15AM")]
+    };
+
+    const fitting = sectionsThatFit(candidates, [lecture]);
+    expect(fitting).toHaveLength(30);
+    expect(fitting.map((s) => s.section).slice(0, 4)).toEqual([
+      "201",
+      "202",
+      "205",
+      "206"
+    ]);
+  });
+});
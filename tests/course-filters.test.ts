@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod/v3";
+import {
+  buildSqlFilters,
+  buildVectorizeFilter,
+  courseFilterFields
+} from "../src/course-filters";
+
+describe("buildSqlFilters", () => {
+  it("filters required and excluded days on the meeting bitmask", () => {
+    const { conditions, params } = buildSqlFilters({
+      dayOfWeek: "TR",
+      excludeDays: "MWF"
+    });
+
+    expect(conditions).toHaveLength(3);
+    expect(conditions[2]).toContain("NOT EXISTS");
+    expect(params).toEqual([2, 8, 1 | 4 | 16]);
+  });
+
+  it("checks every timed meeting against start, end and duration", () => {
+    const { conditions, params } = buildSqlFilters(
+      { earliestStart: "02:00PM", latestEnd: "5:00PM", maxDuration: 75 },
+      "c"
+    );
+
+    expect(conditions).toHaveLength(2);
+    expect(conditions[0]).toContain("cm.tba = 0");
+    expect(conditions[1]).toContain(
+      "cm.start_min < ? OR cm.end_min > ? OR cm.end_min - cm.start_min > ?"
+    );
+    expect(conditions[1]).toContain("cm.course_id = c.id");
+    expect(params).toEqual([840, 1020, 75]);
+  });
+
+  it("adds no conditions without filters", () => {
+    expect(buildSqlFilters({})).toEqual({ conditions: [], params: [] });
+  });
+});
+
+describe("buildVectorizeFilter", () => {
+  it("marks required days true and excluded weekdays false", () => {
+    expect(
+      buildVectorizeFilter("FA26", { dayOfWeek: "T", excludeDays: "FS" })
+    ).toEqual({ term: "FA26", meetsT: true, meetsF: false });
+  });
+});
+
+describe("courseFilterFields", () => {
+  const schema = z.object(courseFilterFields);
+
+  it("accepts day codes and whole-minute durations", () => {
+    expect(
+      schema.safeParse({ dayOfWeek: "TR", excludeDays: "FSu", maxDuration: 75 })
+        .success
+    ).toBe(true);
+  });
+
+  it("rejects day names instead of dropping them", () => {
+    expect(schema.safeParse({ dayOfWeek: "Tuesday" }).success).toBe(false);
+    expect(schema.safeParse({ excludeDays: "Fri" }).success).toBe(false);
+  });
+
+  it("rejects non-positive or fractional durations", () => {
+    expect(schema.safeParse({ minDuration: 0 }).success).toBe(false);
+    expect(schema.safeParse({ maxDuration: 50.5 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { attachMeetings, type Course } from "../src/course-helpers";
+import { fakeEnv } from "./fake-d1";
+
+function sections(count: number): Course[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `CHEM-2070-DIS-${200 + i}`,
+    term: "FA26",
+    subject: "CHEM",
+    catalog_nbr: "2070",
+    title: "General Chemistry I",
+    meetings: "[]"
+  }));
+}
+
+/**
+ * Answer course_meetings lookups with one meeting per bound course
+ */
+function meetingRows(sql: string, params: unknown[]) {
+  if (!sql.includes("FROM course_meetings")) return [];
+  const rows = [];
+  for (let i = 0; i < params.length; i += 2) {
+    rows.push({
+      term: params[i],
+      course_id: params[i + 1],
+      days: "R",
+      start_min: 600,
+      end_min: 650,
+      location: null,
+      start_date: null,
+      end_date: null,
+      tba: 0,
+      raw: "R 10:00AM-10:50AM"
+    });
+  }
+  return rows;
+}
+
+describe("attachMeetings", () => {
+  it("looks up more sections than fit in one D1 query", async () => {
+    const { env, db } = fakeEnv(meetingRows);
+    const courses = await attachMeetings(env, sections(120));
+
+    expect(db.queries).toHaveLength(3);
+    expect(db.queries.every((query) => query.params.length <= 100)).toBe(true);
+    expect(courses).toHaveLength(120);
+    expect(
+      courses.every((course) => course.parsedMeetings[0]?.startMinutes === 600)
+    ).toBe(true);
+  });
+
+  it("skips the lookup when there are no courses", async () => {
+    const { env, db } = fakeEnv(meetingRows);
+    expect(await attachMeetings(env, [])).toEqual([]);
+    expect(db.queries).toHaveLength(0);
+  });
+});
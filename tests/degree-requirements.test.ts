@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  degreeProgramSchema,
+  evaluateDegreeProgress,
+  findRequirementCandidates,
+  type TakenCourse
+} from "../src/degree-requirements";
+import { fakeEnv } from "./fake-d1";
+
+const program = degreeProgramSchema.parse({
+  id: "test-major",
+  name: "Test Major",
+  type: "major",
+  requirements: [
+    {
+      id: "intro",
+      name: "Intro",
+      type: "all",
+      courses: [["cs1110", "CS 1112"], "CS-2110"]
+    },
+    {
+      id: "theory",
+      name: "Theory",
+      type: "choose",
+      count: 1,
+      courses: ["CS 2800", "CS 2802"]
+    },
+    {
+      id: "electives",
+      name: "Electives",
+      type: "distribution",
+      count: 2,
+      subjects: ["CS"],
+      minCatalogNbr: 4000
+    }
+  ]
+});
+
+function taken(
+  code: string,
+  status: TakenCourse["status"] = "completed"
+): TakenCourse {
+  return { code, status, term: null, attributes: [] };
+}
+
+describe("degreeProgramSchema", () => {
+  it("normalizes course codes", () => {
+    expect(program.requirements[0]).toMatchObject({
+      courses: [["CS 1110", "CS 1112"], "CS 2110"]
+    });
+  });
+
+  it("rejects invalid course codes", () => {
+    const result = degreeProgramSchema.safeParse({
+      id: "bad",
+      name: "Bad",
+      type: "minor",
+      requirements: [
+        { id: "x", name: "X", type: "choose", count: 1, courses: ["CS"] }
+      ]
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("evaluateDegreeProgress", () => {
+  it("accepts any alternative and lists what is missing", () => {
+    const [intro] = evaluateDegreeProgress(program, [taken("CS 1112")]);
+    expect(intro.satisfiedBy).toEqual([
+      { code: "CS 1112", status: "completed" }
+    ]);
+    expect(intro.remaining).toBe(1);
+    expect(intro.options).toEqual(["CS 2110"]);
+  });
+
+  it("counts each course toward one requirement only", () => {
+    const progress = evaluateDegreeProgress(program, [
+      taken("CS 1110"),
+      taken("CS 2110"),
+      taken("CS 4820"),
+      taken("CS 4410")
+    ]);
+    expect(progress[0].satisfied).toBe(true);
+    expect(progress[1].options).toEqual(["CS 2800", "CS 2802"]);
+    expect(progress[2].satisfiedBy.map((c) => c.code)).toEqual([
+      "CS 4820",
+      "CS 4410"
+    ]);
+  });
+
+  it("separates planned from completed progress", () => {
+    const [, theory] = evaluateDegreeProgress(program, [
+      taken("CS 2800", "scheduled")
+    ]);
+    expect(theory.satisfied).toBe(false);
+    expect(theory.plannedSatisfied).toBe(true);
+    expect(theory.options).toEqual([]);
+  });
+});
+
+describe("findRequirementCandidates", () => {
+  it("leaves out taken courses without binding each one", async () => {
+    // The catalog offers CS 4000 onward; the student has taken the first 150
+    const { env, db } = fakeEnv((_sql, params) =>
+      Array.from({ length: params[params.length - 1] as number }, (_, i) => ({
+        id: `CS-${4000 + i}-001-1`,
+        code: `CS ${4000 + i}`,
+        title: "Elective",
+        credits: 4,
+        status: "O"
+      }))
+    );
+    const completed = Array.from({ length: 150 }, (_, i) =>
+      taken(`CS ${4000 + i}`)
+    );
+    const electives = program.requirements[2];
+    const [, , progress] = evaluateDegreeProgress(program, completed);
+
+    const candidates = await findRequirementCandidates(
+      env,
+      "FA26",
+      electives,
+      progress,
+      completed
+    );
+
+    expect(db.queries.every((query) => query.params.length <= 100)).toBe(true);
+    expect(candidates.map((c) => c.code)).toEqual([
+      "CS 4150",
+      "CS 4151",
+      "CS 4152",
+      "CS 4153",
+      "CS 4154"
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Minimal stand-in for the D1 binding, for tests that run outside workerd
+ * Each query is answered by a handler. Like D1, a statement rejects more than
+ * 100 bound parameters.
+ */
+
+export type QueryHandler = (sql: string, params: unknown[]) => unknown[];
+
+const MAX_BOUND_PARAMETERS = 100;
+
+class FakeStatement {
+  constructor(
+    private db: FakeD1,
+    readonly sql: string,
+    readonly params: unknown[] = []
+  ) {}
+
+  bind(...params: unknown[]): FakeStatement {
+    if (params.length > MAX_BOUND_PARAMETERS) {
+      throw new Error("D1_ERROR: too many SQL variables");
+    }
+    return new FakeStatement(this.db, this.sql, params);
+  }
+
+  async all<T>(): Promise<{ results: T[] }> {
+    this.db.queries.push({ sql: this.sql, params: this.params });
+    return { results: this.db.handler(this.sql, this.params) as T[] };
+  }
+
+  async first<T>(): Promise<T | null> {
+    return ((await this.all<T>()).results[0] as T) ?? null;
+  }
+
+  async run(): Promise<{ results: unknown[] }> {
+    return this.all();
+  }
+}
+
+export class FakeD1 {
+  queries: { sql: string; params: unknown[] }[] = [];
+
+  constructor(readonly handler: QueryHandler) {}
+
+  prepare(sql: string): FakeStatement {
+    return new FakeStatement(this, sql);
+  }
+
+  async batch(statements: FakeStatement[]) {
+    return Promise.all(statements.map((statement) => statement.all()));
+  }
+}
+
+/**
+ * An Env whose DB answers queries with the handler
+ */
+export function fakeEnv(handler: QueryHandler): { env: Env; db: FakeD1 } {
+  const db = new FakeD1(handler);
+  return { env: { DB: db } as unknown as Env, db };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { parseMeeting, type CourseWithMeetings } from "../src/course-helpers";
+import {
+  completeFreeTimeCourses,
+  computeFreeWindows,
+  fitsFreeWindows,
+  formatFreeWindows
+} from "../src/free-time";
+import { fakeEnv } from "./fake-d1";
+
+function section(code: string, meetings: string[]): CourseWithMeetings {
+  const [subject, catalog_nbr] = code.split(" ");
+  return {
+    id: code,
+    term: "FA26",
+    subject,
+    catalog_nbr,
+    title: code,
+    component: "LEC",
+    section: "001",
+    credits: 4,
+    meetings: JSON.stringify(meetings),
+    parsedMeetings: meetings.map(parseMeeting)
+  };
+}
+
+const schedule = [
+  section("CS 2110", ["TR 1:25PM-2:40PM"]),
+  section("MATH 1920", ["T 3:35PM-4:25PM"])
+];
+
+// Tuesday and Thursday afternoons, noon to 5pm
+const windows = computeFreeWindows(schedule, ["T", "R"], 720, 1020);
+
+describe("computeFreeWindows", () => {
+  it("splits each day around scheduled meetings", () => {
+    expect(formatFreeWindows(windows)).toEqual([
+      "T 12:00PM-01:25PM",
+      "T 02:40PM-03:35PM",
+      "T 04:25PM-05:00PM",
+      "R 12:00PM-01:25PM",
+      "R 02:40PM-05:00PM"
+    ]);
+  });
+
+  it("returns nothing when the hours are fully scheduled", () => {
+    expect(computeFreeWindows(schedule, ["T"], 805, 880)).toEqual([]);
+  });
+});
+
+describe("fitsFreeWindows", () => {
+  it("requires every meeting to fit on each of its days", () => {
+    const fits = (meetings: string[]) =>
+      fitsFreeWindows(meetings.map(parseMeeting), windows);
+
+    expect(fits(["T 12:20PM-1:10PM"])).toBe(true);
+    expect(fits(["TR 2:55PM-3:30PM"])).toBe(true);
+    expect(fits(["TR 3:00PM-4:00PM"])).toBe(false);
+    expect(fits(["TW 12:20PM-1:10PM"])).toBe(false);
+  });
+
+  it("rejects sections with only TBA meetings", () => {
+    expect(fitsFreeWindows([parseMeeting("TBA")], windows)).toBe(false);
+  });
+});
+
+describe("completeFreeTimeCourses", () => {
+  const sectionInfo = {
+    enroll_group: null,
+    assoc_class: null,
+    components_required: null,
+    components_optional: null
+  };
+
+  // 120 lectures that fit; even courses have a discussion that fits too
+  const lectures = Array.from({ length: 120 }, (_, i) => ({
+    ...section(`TEST ${1000 + i}`, ["T 12:00PM-12:50PM"]),
+    ...sectionInfo,
+    component: "LEC",
+    section: "001"
+  }));
+
+  function discussions(sql: string, params: unknown[]) {
+    if (!sql.includes("FROM courses")) return [];
+    return params.slice(1).map((code) => {
+      const [subject, catalog_nbr] = String(code).split(" ");
+      const fits = Number(catalog_nbr) % 2 === 0;
+      return {
+        ...sectionInfo,
+        id: `${code} DIS`,
+        term: "FA26",
+        subject,
+        catalog_nbr,
+        title: String(code),
+        component: "DIS",
+        section: "201",
+        meetings: JSON.stringify([fits ? "R 3:00PM-3:50PM" : "R 1:30PM-2:20PM"])
+      };
+    });
+  }
+
+  it("checks other components across more than 50 lectures", async () => {
+    const { env, db } = fakeEnv(discussions);
+    const matches = await completeFreeTimeCourses(
+      env,
+      "FA26",
+      lectures,
+      schedule,
+      ["T", "R"],
+      720,
+      1020,
+      100
+    );
+
+    expect(db.queries.every((query) => query.params.length <= 100)).toBe(true);
+    expect(matches).toHaveLength(60);
+    expect(matches[0].section.catalog_nbr).toBe("1000");
+    expect(matches[0].otherSections.DIS).toEqual([
+      {
+        courseId: "TEST 1000 DIS",
+        section: "TEST 1000 DIS 201",
+        meetings: ["R 3:00PM-3:50PM"]
+      }
+    ]);
+  });
+
+  it("stops loading sections once enough courses fit", async () => {
+    const { env, db } = fakeEnv(discussions);
+    const matches = await completeFreeTimeCourses(
+      env,
+      "FA26",
+      lectures,
+      schedule,
+      ["T", "R"],
+      720,
+      1020,
+      5
+    );
+
+    expect(matches).toHaveLength(5);
+    expect(
+      db.queries.filter((query) => query.sql.includes("FROM courses"))
+    ).toHaveLength(1);
+  });
+});
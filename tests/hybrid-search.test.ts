@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFtsQuery,
+  extractCourseCodes,
+  reciprocalRankFusion
+} from "../src/hybrid-search";
+
+describe("extractCourseCodes", () => {
+  it("finds course codes in common spellings", () => {
+    expect(extractCourseCodes("CS 4780, CS-2110, ORIE3500 or cs4820")).toEqual([
+      { subject: "CS", catalogNbr: "4780" },
+      { subject: "CS", catalogNbr: "2110" },
+      { subject: "ORIE", catalogNbr: "3500" },
+      { subject: "CS", catalogNbr: "4820" }
+    ]);
+  });
+
+  it("ignores years and other words followed by a number", () => {
+    expect(extractCourseCodes("machine learning in fall 2026")).toEqual([]);
+    expect(extractCourseCodes("courses from 2025 on Tuesdays")).toEqual([]);
+  });
+});
+
+describe("buildFtsQuery", () => {
+  it("quotes meaningful words and drops stop words", () => {
+    expect(buildFtsQuery("Show me courses about Machine Learning")).toBe(
+      '"machine" OR "learning"'
+    );
+  });
+
+  it("strips FTS5 syntax from user input", () => {
+    expect(buildFtsQuery('ethics" OR NEAR(ai*)')).toBe(
+      '"ethics" OR "near" OR "ai"'
+    );
+  });
+
+  it("returns null when nothing is left to match", () => {
+    expect(buildFtsQuery("find me a course")).toBeNull();
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("ranks IDs found by both retrievers first", () => {
+    expect(
+      reciprocalRankFusion([
+        ["a", "b", "c"],
+        ["c", "a", "d"]
+      ])
+    ).toEqual(["a", "c", "b", "d"]);
+  });
+
+  it("keeps a single ranking's order", () => {
+    expect(reciprocalRankFusion([["x", "y"], []])).toEqual(["x", "y"]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { generateICS } from "../src/ical";
+import { parseMeeting, type CourseWithMeetings } from "../src/course-helpers";
+import type { AcademicTerm } from "../src/academic-calendar";
+
+const calendar: AcademicTerm = {
+  term: "FA26",
+  startDate: "2026-08-25",
+  endDate: "2026-12-07",
+  breaks: [{ name: "Fall Break", start: "2026-10-10", end: "2026-10-13" }]
+};
+
+function course(meetings: string[]): CourseWithMeetings {
+  return {
+    id: "12345",
+    term: "FA26",
+    subject: "CS",
+    catalog_nbr: "2110",
+    component: "LEC",
+    section: "001",
+    title: "Object-Oriented Programming and Data Structures",
+    instructors: JSON.stringify(["Jane Doe"]),
+    meetings: JSON.stringify(meetings),
+    parsedMeetings: meetings.map(parseMeeting)
+  };
+}
+
+describe("generateICS", () => {
+  it("starts each weekly rule on its first class day and ends with the term", () => {
+    const { ics, eventCount } = generateICS(
+      [course(["MW 10:10AM-11:25AM Gates Hall G01"])],
+      calendar
+    );
+
+    expect(eventCount).toBe(1);
+    expect(ics).toContain("DTSTART;TZID=America/New_York:20260826T101000\r\n");
+    expect(ics).toContain("DTEND;TZID=America/New_York:20260826T112500\r\n");
+    expect(ics).toContain(
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261208T045959Z\r\n"
+    );
+    expect(ics).toContain("LOCATION:Gates Hall G01\r\n");
+  });
+
+  it("excludes class days that fall in a break", () => {
+    const { ics } = generateICS([course(["MW 10:10AM-11:25AM"])], calendar);
+    expect(ics).toContain("EXDATE;TZID=America/New_York:20261012T101000\r\n");
+  });
+
+  it("skips TBA meetings and clamps dated meetings to their range", () => {
+    const { ics, eventCount, skipped } = generateICS(
+      [course(["TBA", "F 01:25PM-04:25PM (10/01/2026-10/30/2026)"])],
+      calendar
+    );
+
+    expect(eventCount).toBe(1);
+    expect(skipped).toEqual(["CS 2110: TBA"]);
+    expect(ics).toContain("DTSTART;TZID=America/New_York:20261002T132500");
+    expect(ics).toContain("UNTIL=20261031T045959Z");
+  });
+});
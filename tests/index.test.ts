@@ -23,4 +23,15 @@ describe("Chat worker", () => {
     expect(await response.text()).toBe("Not found");
     expect(response.status).toBe(404);
   });
+
+  it("rejects ingestion without an admin token", async () => {
+    const request = new Request("http://example.com/ingest-courses", {
+      method: "POST",
+      body: "[]"
+    });
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(request, env, ctx);
+    await waitOnExecutionContext(ctx);
+    expect(response.status).toBe(401);
+  });
 });
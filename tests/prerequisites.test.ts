@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePrerequisites,
+  unmetRequirements,
+  formatPrereq
+} from "../src/prerequisites";
+
+describe("parsePrerequisites", () => {
+  it("parses a simple or-list", () => {
+    const parsed = parsePrerequisites("Prerequisite: CS 1110 or CS 1112.");
+    expect(formatPrereq(parsed.prerequisites)).toBe("CS 1110 or CS 1112");
+    expect(parsed.corequisites).toBeNull();
+  });
+
+  it("binds comma-separated clauses more loosely than or", () => {
+    const parsed = parsePrerequisites(
+      "Prerequisite: CS 2110 or CS 2112, and CS 2800 or equivalent."
+    );
+    expect(formatPrereq(parsed.prerequisites)).toBe(
+      "(CS 2110 or CS 2112) and CS 2800"
+    );
+    expect(parsed.allowsEquivalent).toBe(true);
+  });
+
+  it("inherits the subject for bare catalog numbers", () => {
+    const parsed = parsePrerequisites(
+      "Prerequisite: CS 2110 or 2112; MATH 1920/2220."
+    );
+    expect(formatPrereq(parsed.prerequisites)).toBe(
+      "(CS 2110 or CS 2112) and (MATH 1920 or MATH 2220)"
+    );
+  });
+
+  it("separates corequisites from prerequisites", () => {
+    const parsed = parsePrerequisites(
+      "Prerequisite: MATH 1110, MATH 1120, and MATH 1910. Corequisite: PHYS 1112."
+    );
+    expect(formatPrereq(parsed.prerequisites)).toBe(
+      "MATH 1110 and MATH 1120 and MATH 1910"
+    );
+    expect(formatPrereq(parsed.corequisites)).toBe("PHYS 1112");
+  });
+
+  it("ignores sentences after the requirement", () => {
+    const parsed = parsePrerequisites(
+      "Prerequisite: CS 3110. Enrollment limited to: juniors in ORIE 3300."
+    );
+    expect(formatPrereq(parsed.prerequisites)).toBe("CS 3110");
+  });
+});
+
+describe("unmetRequirements", () => {
+  it("returns only the unsatisfied branches", () => {
+    const parsed = parsePrerequisites(
+      "Prerequisites: (CS 2110 or CS 2112) and (CS 2800 or CS 2802)."
+    );
+    const unmet = unmetRequirements(parsed.prerequisites, new Set(["CS 2112"]));
+    expect(formatPrereq(unmet)).toBe("CS 2800 or CS 2802");
+    expect(
+      unmetRequirements(parsed.prerequisites, new Set(["CS 2110", "CS 2802"]))
+    ).toBeNull();
+  });
+});
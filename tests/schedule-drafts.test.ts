@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { parseMeeting, type CourseWithMeetings } from "../src/course-helpers";
+import { summarizeSchedule } from "../src/schedule-drafts";
+
+function section(
+  code: string,
+  component: string,
+  credits: number,
+  meetings: string[]
+): CourseWithMeetings {
+  const [subject, catalog_nbr] = code.split(" ");
+  return {
+    id: `${code}-${component}`,
+    term: "FA26",
+    subject,
+    catalog_nbr,
+    title: code,
+    component,
+    section: "001",
+    credits,
+    meetings: JSON.stringify(meetings),
+    parsedMeetings: meetings.map(parseMeeting)
+  };
+}
+
+describe("summarizeSchedule", () => {
+  it("counts a course's credits once across its sections", () => {
+    const summary = summarizeSchedule([
+      section("CS 2110", "LEC", 4, ["MW 10:10AM-11:00AM"]),
+      section("CS 2110", "DIS", 4, ["F 9:05AM-9:55AM"]),
+      section("MATH 1920", "LEC", 4, ["TR 1:25PM-2:40PM"])
+    ]);
+
+    expect(summary.credits).toBe(8);
+    expect(summary.daysOnCampus).toEqual(["M", "T", "W", "R", "F"]);
+    expect(summary.earliestStart).toBe("09:05AM");
+    expect(summary.latestEnd).toBe("02:40PM");
+    expect(summary.conflicts).toEqual([]);
+  });
+
+  it("reports time conflicts", () => {
+    const summary = summarizeSchedule([
+      section("CS 2110", "LEC", 4, ["MW 10:10AM-11:00AM"]),
+      section("PHYS 1112", "LEC", 4, ["MWF 10:10AM-11:00AM"])
+    ]);
+
+    expect(summary.conflicts).toHaveLength(1);
+    expect(summary.sections).toEqual(["CS 2110 LEC 001", "PHYS 1112 LEC 001"]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { parseMeeting } from "../src/course-helpers";
+import {
+  generateSchedules,
+  type ScheduleSection
+} from "../src/schedule-generator";
+
+function sections(
+  code: string,
+  count: number,
+  meeting: (i: number) => string,
+  structure: (i: number) => Partial<ScheduleSection> = () => ({})
+): ScheduleSection[] {
+  const [subject, catalog_nbr] = code.split(" ");
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${code}-${i}`,
+    term: "FA26",
+    subject,
+    catalog_nbr,
+    title: code,
+    component: "LEC",
+    section: String(i + 1).padStart(3, "0"),
+    enroll_group: null,
+    assoc_class: null,
+    components_required: null,
+    components_optional: null,
+    meetings: "[]",
+    parsedMeetings: [parseMeeting(meeting(i))],
+    ...structure(i)
+  }));
+}
+
+describe("generateSchedules", () => {
+  // 100 × 100 combinations, more than the search examines; only the last
+  // section of each course starts after 10AM
+  const math = sections("MATH 1920", 100, (i) =>
+    i === 99 ? "MW 11:15AM-12:05PM" : "MW 8:00AM-8:50AM"
+  );
+  const cs = sections("CS 2110", 100, (i) =>
+    i === 99 ? "TR 1:25PM-2:40PM" : "TR 8:40AM-9:55AM"
+  );
+
+  it("finds the best schedule even when it comes last in section order", () => {
+    const { schedules, truncated } = generateSchedules(
+      [math, cs],
+      { earliestStart: "10:00AM" },
+      3
+    );
+
+    expect(truncated).toBe(false);
+    expect(schedules).toHaveLength(3);
+    expect(schedules[0].violations).toEqual([]);
+    expect(schedules[0].sections.map((s) => s.section)).toEqual(["100", "100"]);
+    expect(schedules[1].violations).toHaveLength(1);
+  });
+
+  it("stops when most branches end in a conflict", () => {
+    // Every MATH 1920 section conflicts with every CS 2110 section, which is
+    // only found once the six courses between them are filled
+    const between = [
+      "T 8:00AM-8:50AM",
+      "T 9:05AM-9:55AM",
+      "T 10:10AM-11:00AM",
+      "R 8:00AM-8:50AM",
+      "R 9:05AM-9:55AM",
+      "R 10:10AM-11:00AM"
+    ].map((time, i) => sections(`ENGL ${1100 + i}`, 20, () => time));
+    const { schedules, truncated } = generateSchedules(
+      [
+        sections("MATH 1920", 20, () => "M 8:00AM-8:50AM"),
+        ...between,
+        sections("CS 2110", 20, () => "M 8:00AM-8:50AM")
+      ],
+      {},
+      5
+    );
+
+    expect(truncated).toBe(true);
+    expect(schedules).toEqual([]);
+  });
+
+  it("skips sections that conflict", () => {
+    const { schedules, examined } = generateSchedules(
+      [
+        sections("MATH 1920", 2, (i) =>
+          i === 0 ? "MW 8:00AM-8:50AM" : "MW 10:10AM-11:00AM"
+        ),
+        sections("CS 2110", 1, () => "MWF 8:00AM-8:50AM")
+      ],
+      {},
+      5
+    );
+
+    expect(examined).toBe(1);
+    expect(schedules[0].sections.map((s) => s.id)).toEqual([
+      "CS 2110-0",
+      "MATH 1920-1"
+    ]);
+  });
+
+  it("only pairs sections from the same enrollment group", () => {
+    // Group 1 meets in the morning, group 2 in the afternoon
+    const lectures = sections(
+      "CHEM 2090",
+      2,
+      (i) => (i === 0 ? "MWF 9:05AM-9:55AM" : "MWF 1:25PM-2:15PM"),
+      (i) => ({ enroll_group: i + 1 })
+    );
+    const discussions = sections(
+      "CHEM 2090",
+      2,
+      (i) => (i === 0 ? "T 8:00AM-8:50AM" : "T 2:30PM-3:20PM"),
+      (i) => ({
+        id: `CHEM 2090-DIS-${i}`,
+        component: "DIS",
+        section: `20${i + 1}`,
+        enroll_group: i + 1
+      })
+    );
+
+    const { schedules } = generateSchedules(
+      [[...lectures, ...discussions]],
+      {},
+      5
+    );
+
+    expect(schedules.map((s) => s.sections.map((c) => c.id).sort())).toEqual(
+      expect.arrayContaining([
+        ["CHEM 2090-0", "CHEM 2090-DIS-0"],
+        ["CHEM 2090-1", "CHEM 2090-DIS-1"]
+      ])
+    );
+    expect(schedules).toHaveLength(2);
+  });
+});
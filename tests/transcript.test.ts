@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { parseTranscript } from "../src/transcript";
+
+describe("parseTranscript", () => {
+  it("reads letter grades and the preceding term header", () => {
+    expect(
+      parseTranscript(
+        [
+          "Fall 2025",
+          "CS 2110  Object-Oriented Programming  4.0  A-",
+          "MATH1920 Multivariable Calculus 4.0 B+",
+          "Spring 2026",
+          "ENGL 1170 Short Stories 3.0 C"
+        ].join("\n")
+      )
+    ).toEqual([
+      { subject: "CS", catalogNbr: "2110", term: "FA25", grade: "A-" },
+      { subject: "MATH", catalogNbr: "1920", term: "FA25", grade: "B+" },
+      { subject: "ENGL", catalogNbr: "1170", term: "SP26", grade: "C" }
+    ]);
+  });
+
+  it("doesn't read uppercase term headers as courses", () => {
+    expect(
+      parseTranscript(
+        [
+          "FALL 2025",
+          "CS 2110 Object-Oriented Programming 4.0 A",
+          "SPRING 2026 (In Progress)",
+          "CS 3110 Functional Programming 4.0"
+        ].join("\n")
+      )
+    ).toEqual([
+      { subject: "CS", catalogNbr: "2110", term: "FA25", grade: "A" },
+      { subject: "CS", catalogNbr: "3110", term: "SP26", grade: null }
+    ]);
+  });
+
+  it("keeps satisfactory grades and skips unsatisfactory ones", () => {
+    const courses = parseTranscript(
+      ["PE 1100 Swimming 1.0 S", "PE 1200 Rock Climbing 1.0 U"].join("\n")
+    );
+    expect(courses.map((c) => [c.catalogNbr, c.grade])).toEqual([
+      ["1100", "S"]
+    ]);
+  });
+
+  it("skips withdrawn, incomplete and in-progress courses", () => {
+    expect(
+      parseTranscript(
+        [
+          "CS 3110 Functional Programming 4.0 W",
+          "CS 2800 Discrete Structures 3.0 INC",
+          "CS 4820 Algorithms 4.0 R"
+        ].join("\n")
+      )
+    ).toEqual([]);
+  });
+
+  it("records courses without a grade", () => {
+    expect(parseTranscript("PHYS 1112 Mechanics 4.0")).toEqual([
+      { subject: "PHYS", catalogNbr: "1112", term: null, grade: null }
+    ]);
+  });
+
+  it("ignores lines without a course code", () => {
+    expect(parseTranscript("Cumulative GPA 3.71\nTotal credits 64")).toEqual(
+      []
+    );
+  });
+});